@@ -1,54 +1,120 @@
-import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import {
+    McpServer,
+    ResourceTemplate
+} from "@modelcontextprotocol/sdk/server/mcp.js";
+import { StdioServerTransport } from "@modelcontextprotocol/sdk/server/stdio.js";
 import { StreamableHTTPServerTransport } from "@modelcontextprotocol/sdk/server/streamableHttp.js";
-import express from "express";
+import { Transport } from "@modelcontextprotocol/sdk/shared/transport.js";
+import { isInitializeRequest } from "@modelcontextprotocol/sdk/types.js";
+import { randomUUID } from "node:crypto";
+import express, { Express, Request, Response } from "express";
+import { z, ZodTypeAny } from "zod";
 import MedusaStoreService from "./services/medusa-store";
 import MedusaAdminService from "./services/medusa-admin";
 import * as allowedToolsJson from "./allowed-tools.json";
+import { completable } from "@modelcontextprotocol/sdk/server/completable.js";
+import { defineAuditLogTools } from "./utils/audit-log-tool";
+import {
+    admitCompleters,
+    Completer,
+    mergeCompleters
+} from "./utils/completions";
+import { RegisterableResource } from "./utils/define-resources";
+import { toToolError } from "./utils/error";
+import { loadPrompts, PromptDefinition, renderPrompt } from "./utils/prompts";
+import { isReadOnlyMode } from "./utils/openapi-tools";
+import { SessionRegistry } from "./utils/session-registry";
+import {
+    buildProfiles,
+    DEFAULT_PROFILE,
+    findCredentialProfile,
+    selectProfile,
+    ToolProfilesConfig
+} from "./utils/tool-profiles";
 
-const allowedToolsConfig = allowedToolsJson as {
-    allowedTools: string[];
-    allowAllTools: boolean;
-};
+const allowedToolsConfig = allowedToolsJson as ToolProfilesConfig;
 
-async function main(): Promise<void> {
-    console.error("Starting Medusa Store MCP Server...");
-    const medusaStoreService = new MedusaStoreService();
-    const medusaAdminService = new MedusaAdminService();
-    let tools = [];
-    try {
-        await medusaAdminService.init();
+// "stateless" (default) serves each POST on its own; "stateful" issues
+// Mcp-Session-Id and keeps a transport per session
+const MCP_SESSION_MODE =
+    process.env.MCP_SESSION_MODE === "stateful" ? "stateful" : "stateless";
+const MCP_SESSION_TTL_MS = Number(
+    process.env.MCP_SESSION_TTL_MS ?? 30 * 60 * 1000
+);
 
-        tools = [
-            ...medusaStoreService.defineTools(),
-            ...medusaAdminService.defineTools()
-        ];
-    } catch (error) {
-        console.error("Error initializing Medusa Admin Services:", error);
-        tools = [...medusaStoreService.defineTools()];
+// Selected with `--transport <stdio|http|both>` or MCP_TRANSPORT (default http)
+function getTransportMode(): "stdio" | "http" | "both" {
+    const args = process.argv.slice(2);
+    const flagIndex = args.findIndex(
+        (arg) => arg === "--transport" || arg.startsWith("--transport=")
+    );
+    const value =
+        flagIndex === -1
+            ? process.env.MCP_TRANSPORT
+            : args[flagIndex].includes("=")
+            ? args[flagIndex].split("=")[1]
+            : args[flagIndex + 1];
+    const mode = (value ?? "http").toLowerCase();
+    if (mode !== "stdio" && mode !== "http" && mode !== "both") {
+        throw new Error(
+            `Unknown transport "${value}", expected stdio, http or both`
+        );
     }
+    return mode;
+}
 
-    // Filter tools based on allowed-tools.json configuration
-    const totalToolsCount = tools.length;
-    if (!allowedToolsConfig.allowAllTools && allowedToolsConfig.allowedTools && allowedToolsConfig.allowedTools.length > 0) {
-        const allowedToolNames = new Set(allowedToolsConfig.allowedTools);
-        const originalTools = tools;
-        tools = tools.filter((tool) => allowedToolNames.has(tool.name));
-
-        const filteredCount = totalToolsCount - tools.length;
-        console.error(`Tool filtering enabled: ${tools.length}/${totalToolsCount} tools allowed`);
-
-        if (filteredCount > 0) {
-            const disabledTools = originalTools
-                .filter((tool) => !allowedToolNames.has(tool.name))
-                .map((tool) => tool.name);
-            console.error(`Disabled tools (${filteredCount}):`, disabledTools.slice(0, 5).join(", "),
-                filteredCount > 5 ? `... and ${filteredCount - 5} more` : "");
-        }
-        console.log(JSON.stringify(tools))
-    } else {
-        console.error(`All tools enabled: ${totalToolsCount} tools available`);
-    }
+// Prompts are read once at startup from MCP_PROMPTS_DIR
+const prompts = loadPrompts();
+
+function registerPrompt(
+    server: McpServer,
+    prompt: PromptDefinition,
+    completers: Record<string, Completer>
+): void {
+    const argsSchema = Object.fromEntries(
+        (prompt.arguments ?? []).map((argument) => {
+            let schema: ZodTypeAny = z
+                .string()
+                .describe(argument.description ?? "");
+            if (!argument.required) {
+                schema = schema.optional();
+            }
+            const completer = completers[argument.completion ?? argument.name];
+            return [
+                argument.name,
+                completer
+                    ? completable(schema, (value) => completer(value ?? ""))
+                    : schema
+            ];
+        })
+    );
+    server.registerPrompt(
+        prompt.name,
+        { description: prompt.description, argsSchema },
+        (args: Record<string, string | undefined>) => ({
+            messages: [
+                {
+                    role: "user",
+                    content: { type: "text", text: renderPrompt(prompt, args) }
+                }
+            ]
+        })
+    );
+}
+
+// Everything served next to a profile's tools
+type ServerFeatures = {
+    resources: RegisterableResource[];
+    // Completers for prompt arguments keyed by argument name, one set per
+    // service
+    completers: Record<string, Completer>[];
+};
 
+const READ_ONLY_NOTICE =
+    "This server runs in read-only mode: only GET operations are available and any create, update or delete is refused.";
+
+function createServer(tools: any[], features: ServerFeatures): McpServer {
+    const readOnly = isReadOnlyMode();
     const server = new McpServer(
         {
             name: "Medusa Store MCP Server",
@@ -56,30 +122,119 @@ async function main(): Promise<void> {
         },
         {
             capabilities: {
-                tools: {}
-            }
+                tools: {},
+                resources: {},
+                prompts: {}
+            },
+            instructions: readOnly ? READ_ONLY_NOTICE : undefined
         }
     );
 
+    // Clients that ignore the instructions still see the mode in tools/list
     tools.forEach((tool) => {
-        server.tool(
+        server.registerTool(
             tool.name,
-            tool.description,
-            tool.inputSchema,
+            {
+                description: readOnly
+                    ? `[Read-only mode] ${tool.description}`
+                    : tool.description,
+                inputSchema: tool.inputSchema,
+                annotations: tool.annotations
+            },
             tool.handler
         );
     });
 
-    const app = express();
-    const PORT = process.env.PORT || 3000;
+    // Entity resources, their listing and list completers follow the
+    // profile's filter on their GET tools
+    const toolNames = new Set(tools.map((tool) => tool.name));
+    features.resources
+        .filter((resource) => !resource.tool || toolNames.has(resource.tool))
+        .forEach((resource) => {
+            server.registerResource(
+                resource.name,
+                new ResourceTemplate(resource.uriTemplate, {
+                    list:
+                        resource.list &&
+                        (!resource.listTool || toolNames.has(resource.listTool))
+                            ? async (extra) => ({
+                                  resources: await resource.list!(extra)
+                              })
+                            : undefined,
+                    complete:
+                        resource.complete &&
+                        admitCompleters(resource.complete, toolNames)
+                }),
+                {
+                    description: resource.description,
+                    mimeType: resource.mimeType
+                },
+                resource.read
+            );
+        });
 
-    // Parse JSON bodies for POST requests
-    app.use(express.json());
+    const completers = mergeCompleters(
+        ...features.completers.map((completerSet) =>
+            admitCompleters(completerSet, toolNames)
+        )
+    );
+    prompts.forEach((prompt) => registerPrompt(server, prompt, completers));
+
+    return server;
+}
+
+function sendError(res: Response, status: number, message: string): void {
+    res.status(status).json({
+        jsonrpc: "2.0",
+        error: { code: -32000, message },
+        id: null
+    });
+}
+
+// Both `/mcp` and `/mcp/<profile>` are served
+const MCP_ROUTE = "/mcp{/:profile}";
+
+// Sends a 403 and resolves to undefined when the profile is refused
+function getRequestProfile(req: Request, res: Response): string | undefined {
+    const pathProfile = req.params.profile as string | undefined;
+    try {
+        return selectProfile(allowedToolsConfig, req.headers, pathProfile);
+    } catch (error) {
+        sendError(res, 403, toToolError(error).message);
+        return undefined;
+    }
+}
+
+function registerStatelessRoutes(
+    app: Express,
+    profiles: Map<string, any[]>,
+    features: ServerFeatures
+): void {
+    // Without a session, tools such as CustomerLogin cannot keep their state
+    const servers = new Map(
+        [...profiles].map(([profile, tools]) => [
+            profile,
+            createServer(
+                tools.filter((tool) => !tool.requiresSession),
+                features
+            )
+        ])
+    );
 
     // Streamable HTTP transport endpoint
-    app.post("/mcp", async (req, res) => {
+    app.post(MCP_ROUTE, async (req, res) => {
         console.error("MCP request received");
 
+        const profile = getRequestProfile(req, res);
+        if (!profile) {
+            return;
+        }
+        const server = servers.get(profile);
+        if (!server) {
+            sendError(res, 404, `Unknown profile "${profile}"`);
+            return;
+        }
+
         // Create a new transport for each request to prevent request ID collisions
         const transport = new StreamableHTTPServerTransport({
             sessionIdGenerator: undefined,
@@ -94,15 +249,192 @@ async function main(): Promise<void> {
         await server.connect(transport);
         await transport.handleRequest(req, res, req.body);
     });
+}
+
+function registerStatefulRoutes(
+    app: Express,
+    profiles: Map<string, any[]>,
+    features: ServerFeatures
+): void {
+    const sessions = new SessionRegistry(MCP_SESSION_TTL_MS);
+    sessions.startSweeping();
+
+    app.post(MCP_ROUTE, async (req, res) => {
+        const sessionId = req.header("mcp-session-id");
+        if (sessionId) {
+            const transport = sessions.touch(sessionId);
+            if (!transport) {
+                sendError(res, 404, "Session not found");
+                return;
+            }
+            // Credentials bound to a profile cannot reuse a wider session
+            const credentialProfile = findCredentialProfile(
+                allowedToolsConfig,
+                req.headers
+            );
+            if (
+                credentialProfile &&
+                credentialProfile !== sessions.getProfile(sessionId)
+            ) {
+                sendError(
+                    res,
+                    403,
+                    `These credentials are bound to the "${credentialProfile}" profile`
+                );
+                return;
+            }
+            await transport.handleRequest(req, res, req.body);
+            return;
+        }
+
+        if (!isInitializeRequest(req.body)) {
+            sendError(res, 400, "No valid session ID provided");
+            return;
+        }
+
+        // The profile is picked once, when the session is initialized
+        const profile = getRequestProfile(req, res);
+        if (!profile) {
+            return;
+        }
+        const tools = profiles.get(profile);
+        if (!tools) {
+            sendError(res, 404, `Unknown profile "${profile}"`);
+            return;
+        }
+
+        // A new session gets its own server, since a server serves one transport
+        const server = createServer(tools, features);
+        const transport = new StreamableHTTPServerTransport({
+            sessionIdGenerator: () => randomUUID(),
+            enableJsonResponse: true,
+            onsessioninitialized: (newSessionId) => {
+                console.error(
+                    `MCP session ${newSessionId} initialized (${profile})`
+                );
+                sessions.add(newSessionId, transport, server, profile);
+            }
+        });
+        transport.onclose = () => {
+            if (transport.sessionId) {
+                sessions.remove(transport.sessionId);
+            }
+        };
+
+        await server.connect(transport);
+        await transport.handleRequest(req, res, req.body);
+    });
+
+    // Server-to-client SSE stream (GET) and session termination (DELETE)
+    const handleSessionRequest = async (
+        req: Request,
+        res: Response
+    ): Promise<void> => {
+        const sessionId = req.header("mcp-session-id");
+        const transport = sessionId ? sessions.touch(sessionId) : undefined;
+        if (!transport) {
+            sendError(
+                res,
+                sessionId ? 404 : 400,
+                "Invalid or missing session ID"
+            );
+            return;
+        }
+        await transport.handleRequest(req, res);
+    };
+    app.get(MCP_ROUTE, handleSessionRequest);
+    app.delete(MCP_ROUTE, handleSessionRequest);
+}
+
+function startHttpServer(
+    profiles: Map<string, any[]>,
+    features: ServerFeatures
+): void {
+    const app = express();
+    const PORT = process.env.PORT || 3000;
+
+    // Parse JSON bodies for POST requests
+    app.use(express.json());
+
+    if (MCP_SESSION_MODE === "stateful") {
+        registerStatefulRoutes(app, profiles, features);
+    } else {
+        registerStatelessRoutes(app, profiles, features);
+    }
 
     app.listen(PORT, () => {
-        console.error(`Medusajs MCP Server running on http://localhost:${PORT}/mcp`);
-    }).on('error', (error) => {
-        console.error('Server error:', error);
+        console.error(
+            `Medusajs MCP Server running on http://localhost:${PORT}/mcp (${MCP_SESSION_MODE})`
+        );
+    }).on("error", (error) => {
+        console.error("Server error:", error);
         process.exit(1);
     });
 }
 
+async function startStdioServer(
+    profiles: Map<string, any[]>,
+    features: ServerFeatures
+): Promise<void> {
+    const profile = process.env.MCP_PROFILE ?? DEFAULT_PROFILE;
+    const tools = profiles.get(profile);
+    if (!tools) {
+        throw new Error(`Unknown profile "${profile}"`);
+    }
+    const server = createServer(tools, features);
+    // Stdio serves a single client, so the connection is its session
+    const transport: Transport = new StdioServerTransport();
+    transport.sessionId = randomUUID();
+    await server.connect(transport);
+    console.error(`Medusajs MCP Server running on stdio (${profile})`);
+}
+
+async function main(): Promise<void> {
+    const transportMode = getTransportMode();
+    if (transportMode !== "http") {
+        // stdout carries the protocol stream; send all other output to stderr
+        console.log = console.error;
+        console.info = console.error;
+        console.debug = console.error;
+    }
+
+    console.error("Starting Medusa Store MCP Server...");
+    const medusaStoreService = new MedusaStoreService();
+    const medusaAdminService = new MedusaAdminService();
+    try {
+        await medusaAdminService.init();
+    } catch (error) {
+        // Admin tools stay available to callers sending their own credentials
+        console.error("Error initializing Medusa Admin Services:", error);
+    }
+    const tools = [
+        ...medusaStoreService.defineTools(),
+        ...medusaAdminService.defineTools(),
+        ...defineAuditLogTools()
+    ];
+
+    const features: ServerFeatures = {
+        resources: [
+            ...medusaStoreService.defineResources(),
+            ...medusaAdminService.defineResources()
+        ],
+        completers: [
+            medusaAdminService.defineCompleters(),
+            medusaStoreService.defineCompleters()
+        ]
+    };
+
+    // Filter tools for every profile in allowed-tools.json
+    const profiles = buildProfiles(tools, allowedToolsConfig);
+
+    if (transportMode !== "http") {
+        await startStdioServer(profiles, features);
+    }
+    if (transportMode !== "stdio") {
+        startHttpServer(profiles, features);
+    }
+}
+
 main().catch((error) => {
     console.error("Fatal error in main():", error);
     process.exit(1);
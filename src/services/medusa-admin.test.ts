@@ -0,0 +1,56 @@
+import { afterEach, beforeAll, describe, expect, it, vi } from "vitest";
+import { setAuditSink } from "../utils/audit-log";
+import MedusaAdminService from "./medusa-admin";
+
+// Answer every admin route with an empty record of the expected shape
+function respond(url: URL): unknown {
+    if (url.pathname.startsWith("/admin/orders/order_1/changes")) {
+        return { order_changes: [] };
+    }
+    if (url.pathname.startsWith("/admin/orders/order_1")) {
+        return { order: { id: "order_1", status: "pending" } };
+    }
+    return { claims: [], exchanges: [] };
+}
+
+describe("AdminGetOrder360", () => {
+    beforeAll(() => {
+        setAuditSink(undefined);
+    });
+
+    afterEach(() => {
+        vi.unstubAllGlobals();
+    });
+
+    it("adds the relations to the default order fields", async () => {
+        const fetchMock = vi.fn(async (input: string | URL) => {
+            const url = new URL(String(input));
+            return new Response(JSON.stringify(respond(url)), {
+                status: 200,
+                headers: { "Content-Type": "application/json" }
+            });
+        });
+        vi.stubGlobal("fetch", fetchMock);
+
+        const [tool] = new MedusaAdminService("sk_test").defineOrderTools();
+        const result = await tool.handler({ order_id: "order_1" });
+        expect(result.isError).toBeUndefined();
+
+        const orderUrl = fetchMock.mock.calls
+            .map(([input]) => new URL(String(input)))
+            .find((url) => url.pathname === "/admin/orders/order_1");
+        const fields = orderUrl?.searchParams.get("fields")?.split(",") ?? [];
+
+        expect(fields.length).toBeGreaterThan(0);
+        fields.forEach((field) => expect(field.startsWith("+")).toBe(true));
+        expect(fields).toEqual(
+            expect.arrayContaining([
+                "+items.*",
+                "+items.detail.*",
+                "+customer.*",
+                "+shipping_address.*",
+                "+payment_collections.payments.refunds.*"
+            ])
+        );
+    });
+});
@@ -1,10 +1,32 @@
 import Medusa from "@medusajs/js-sdk";
 import { config } from "dotenv";
-import { z, ZodTypeAny } from "zod";
+import * as destructiveToolsJson from "../destructive-tools.json";
 import adminJson from "../oas/admin.json";
-import { SdkRequestType, Parameter } from "../types/admin-json";
-import { defineTool, InferToolHandlerInput } from "../utils/define-tools";
-import { StoreProductListResponse } from "@medusajs/types";
+import { getJwtExpiry } from "../utils/jwt";
+import {
+    Completer,
+    defineEnumCompleters,
+    defineListCompleter,
+    getListToolName,
+    ListCompletionSource
+} from "../utils/completions";
+import { RegisterableResource } from "../utils/define-resources";
+import { defineEntityResources } from "../utils/entity-resources";
+import { getCallerCredentials } from "../utils/caller-credentials";
+import { defineTool } from "../utils/define-tools";
+import { ToolError } from "../utils/error";
+import {
+    AuthStrategy,
+    generateOpenApiTools,
+    sendAuthenticatedRequest
+} from "../utils/openapi-tools";
+import {
+    buildOrderOverview,
+    findOrderIdByDisplayId
+} from "../utils/order-overview";
+import { defineSchemaResources } from "../utils/schema-resources";
+import { formatToolOutput, getOutputDefaults } from "../utils/tool-output";
+import { matchesTool, ToolMatcher } from "../utils/tool-filter";
 
 config();
 
@@ -14,10 +36,43 @@ const MEDUSA_BACKEND_URL =
 const MEDUSA_USERNAME = process.env.MEDUSA_USERNAME ?? "medusa_user";
 const MEDUSA_PASSWORD = process.env.MEDUSA_PASSWORD ?? "medusa_pass";
 
+// Refresh the admin JWT this long before it expires
+const TOKEN_REFRESH_MARGIN_MS = 60 * 1000;
+
+const destructiveToolsConfig = destructiveToolsJson as {
+    requireConfirmation: boolean;
+    rules: ToolMatcher[];
+};
+
+// List routes that complete ID arguments, keyed by argument name
+const ID_COMPLETION_SOURCES: Record<string, ListCompletionSource> = {
+    region_id: { path: "/admin/regions" },
+    sales_channel_id: { path: "/admin/sales-channels" },
+    stock_location_id: { path: "/admin/stock-locations" },
+    location_id: { path: "/admin/stock-locations" },
+    order_id: { path: "/admin/orders" },
+    collection_id: { path: "/admin/collections" },
+    customer_id: { path: "/admin/customers" },
+    product_id: { path: "/admin/products" },
+    sku: { path: "/admin/inventory-items", valueField: "sku" }
+};
+
+// Medusa expects secret keys as the username of Basic auth
+function getApiKeyHeaders(apiKey: string): Record<string, string> {
+    const credentials = Buffer.from(`${apiKey}:`).toString("base64");
+    return { Authorization: `Basic ${credentials}` };
+}
+
 export default class MedusaAdminService {
     sdk: Medusa;
+    baseUrl = MEDUSA_BACKEND_URL;
     adminToken = "";
-    constructor() {
+    tokenExpiresAt?: number;
+    private pendingAuth?: Promise<void>;
+    constructor(
+        // Secret API key used instead of the email/password login when set
+        public apiKey: string | undefined = process.env.MEDUSA_ADMIN_API_KEY
+    ) {
         this.sdk = new Medusa({
             baseUrl: MEDUSA_BACKEND_URL,
             debug: process.env.NODE_ENV === "development",
@@ -29,218 +84,225 @@ export default class MedusaAdminService {
     }
 
     async init(): Promise<void> {
+        if (this.apiKey) {
+            return;
+        }
+        await this.login();
+    }
+
+    async login(): Promise<void> {
         const res = await this.sdk.auth.login("user", "emailpass", {
             email: MEDUSA_USERNAME,
             password: MEDUSA_PASSWORD
         });
-        this.adminToken = res.toString();
+        this.setAdminToken(res.toString());
     }
 
-    // Helper to resolve $ref in schemas
-    resolveSchemaRef(schema: any, adminJsonObj: any): any {
-        if (!schema) return null;
-
-        // If schema has $ref, resolve it
-        if (schema.$ref) {
-            const refPath = schema.$ref.replace('#/components/schemas/', '');
-            const resolvedSchema = adminJsonObj.components?.schemas?.[refPath];
-            return resolvedSchema || null;
-        }
-
-        return schema;
+    setAdminToken(token: string): void {
+        this.adminToken = token;
+        this.tokenExpiresAt = getJwtExpiry(token);
     }
 
-    wrapPath(refPath: string, refFunction: SdkRequestType) {
-        return defineTool((z) => {
-            let name;
-            let description;
-            let parameters: Parameter[] = [];
-            let method = "get";
-            let requestBodySchema: any = null;
-
-            if ("get" in refFunction) {
-                method = "get";
-                name = refFunction.get.operationId;
-                description = refFunction.get.description;
-                parameters = (refFunction.get.parameters ?? "") as any;
-            } else if ("post" in refFunction) {
-                method = "post";
-                name = refFunction.post.operationId;
-                description = refFunction.post.description;
-                parameters = refFunction.post.parameters ?? [];
-                // Extract request body schema
-                const postMethod = refFunction.post as any;
-                if (postMethod.requestBody?.content?.["application/json"]?.schema) {
-                    let schema = postMethod.requestBody.content["application/json"].schema;
-                    // Resolve $ref if present
-                    requestBodySchema = this.resolveSchemaRef(schema, adminJson);
-                }
-            } else if ("delete" in refFunction) {
-                method = "delete";
-                name = (refFunction.delete as any).operationId;
-                description = (refFunction.delete as any).description;
-                parameters = (refFunction.delete as any).parameters ?? [];
-            }
-            if (!name) {
-                throw new Error("No name found for path: " + refPath);
-            }
-            // Helper function to convert JSON schema properties to Zod schemas (recursive)
-            const convertSchemaPropertyToZod = (prop: any, makeOptional: boolean = true): any => {
-                if (!prop) return makeOptional ? z.any().optional() : z.any();
-
-                // Handle $ref at the property level
-                let resolvedProp = prop;
-                if (prop.$ref) {
-                    resolvedProp = this.resolveSchemaRef(prop, adminJson);
-                    if (!resolvedProp) return makeOptional ? z.any().optional() : z.any();
+    // Exchange the current token for a new one, logging in again on failure
+    async refreshToken(): Promise<void> {
+        try {
+            const { token } = await this.sdk.client.fetch<{ token: string }>(
+                "/auth/token/refresh",
+                {
+                    method: "POST",
+                    headers: {
+                        Authorization: `Bearer ${this.adminToken}`
+                    }
                 }
+            );
+            this.setAdminToken(token);
+        } catch (error) {
+            console.error("Admin token refresh failed, logging in:", error);
+            await this.login();
+        }
+    }
 
-                let zodSchema: any;
-
-                switch (resolvedProp.type) {
-                    case "string":
-                        zodSchema = z.string();
-                        break;
-                    case "number":
-                    case "integer":
-                        zodSchema = z.number();
-                        break;
-                    case "boolean":
-                        zodSchema = z.boolean();
-                        break;
-                    case "array":
-                        // Handle array items - resolve $ref if present
-                        if (resolvedProp.items) {
-                            let itemSchema = resolvedProp.items;
-                            if (itemSchema.$ref) {
-                                itemSchema = this.resolveSchemaRef(itemSchema, adminJson);
-                            }
-                            // Recursively convert item schema to Zod (items are not optional by default)
-                            if (itemSchema) {
-                                const itemZodSchema = convertSchemaPropertyToZod(itemSchema, false);
-                                zodSchema = z.array(itemZodSchema);
-                            } else {
-                                zodSchema = z.array(z.any());
-                            }
-                        } else {
-                            zodSchema = z.array(z.any());
-                        }
-                        break;
-                    case "object":
-                        // Handle nested object properties
-                        if (resolvedProp.properties) {
-                            const nestedSchema = Object.entries(resolvedProp.properties).reduce((acc, [key, value]) => {
-                                // Nested object properties can be optional based on the schema's required array
-                                const isRequired = resolvedProp.required?.includes(key);
-                                acc[key] = convertSchemaPropertyToZod(value, !isRequired);
-                                return acc;
-                            }, {} as any);
-                            zodSchema = z.object(nestedSchema);
-                        } else {
-                            zodSchema = z.object({});
-                        }
-                        break;
-                    default:
-                        zodSchema = z.any();
-                }
+    // Concurrent tool calls share a single refresh or login request
+    private runAuth(task: () => Promise<void>): Promise<void> {
+        if (!this.pendingAuth) {
+            this.pendingAuth = task().finally(() => {
+                this.pendingAuth = undefined;
+            });
+        }
+        return this.pendingAuth;
+    }
 
-                return makeOptional ? zodSchema.optional() : zodSchema;
-            };
-
-            // Build input schema from parameters
-            const parameterSchema = parameters
-                .filter((p) => p.in != "header")
-                .reduce((acc, param) => {
-                    acc[param.name] = convertSchemaPropertyToZod(param.schema);
-                    return acc;
-                }, {} as any);
-
-            // Build input schema from request body
-            let bodySchema = {};
-            if (requestBodySchema?.properties) {
-                bodySchema = Object.entries(requestBodySchema.properties).reduce((acc, [key, value]) => {
-                    acc[key] = convertSchemaPropertyToZod(value);
-                    return acc;
-                }, {} as any);
-            }
+    async getAdminToken(): Promise<string> {
+        if (
+            this.tokenExpiresAt !== undefined &&
+            Date.now() >= this.tokenExpiresAt - TOKEN_REFRESH_MARGIN_MS
+        ) {
+            await this.runAuth(() => this.refreshToken());
+        }
+        return this.adminToken;
+    }
 
-            return {
-                name: `Admin${name}`,
-                description: `This tool helps store administors. ${description}`,
+    defineOrderTools(): any[] {
+        return [
+            defineTool((z) => ({
+                name: "AdminGetOrder360",
+                description:
+                    "This tool helps store administors. Get a consolidated view of an order for investigating complaints: line items with fulfilled, shipped and returned quantities, payments and refunds, fulfillments with tracking, returns, claims, exchanges, order edits and a chronological timeline. Pass either order_id or display_id.",
                 inputSchema: {
-                    ...parameterSchema,
-                    ...bodySchema
+                    order_id: z
+                        .string()
+                        .optional()
+                        .describe("The order ID, e.g. order_01H..."),
+                    display_id: z
+                        .number()
+                        .int()
+                        .optional()
+                        .describe("The order number shown to the customer")
                 },
+                method: "GET",
+                path: "/admin/orders/{id}",
+                tags: ["Orders"],
+                annotations: { readOnlyHint: true, destructiveHint: false },
+                formatResult: (result) =>
+                    formatToolOutput(
+                        result,
+                        getOutputDefaults({
+                            name: "AdminGetOrder360",
+                            method: "GET",
+                            tags: ["Orders"]
+                        })
+                    ),
+                handler: async (input, extra, audit): Promise<any> => {
+                    const caller = getCallerCredentials(
+                        extra?.requestInfo?.headers,
+                        extra?.sessionId
+                    );
+                    const auth = this.getAuthStrategy();
+                    const get = (
+                        path: string,
+                        query?: Record<string, any>
+                    ): Promise<any> =>
+                        sendAuthenticatedRequest(
+                            this.baseUrl,
+                            auth,
+                            caller,
+                            path,
+                            { method: "get", query, audit }
+                        );
 
-                handler: async (
-                    input: InferToolHandlerInput<any, ZodTypeAny>
-                ): Promise<any> => {
-                    // Separate path/query parameters from body parameters
-                    const bodyPropertyNames = requestBodySchema?.properties
-                        ? new Set(Object.keys(requestBodySchema.properties))
-                        : new Set();
-
-                    // Build query parameters (from parameters that are in path/query)
-                    const queryParams: Record<string, any> = {};
-                    const pathParams: Record<string, any> = {};
-                    const bodyParams: Record<string, any> = {};
-
-                    Object.entries(input).forEach(([key, value]) => {
-                        const param = parameters.find(p => p.name === key);
-                        if (param) {
-                            if (param.in === "path") {
-                                pathParams[key] = value;
-                            } else if (param.in === "query") {
-                                queryParams[key] = value;
-                            }
-                        } else if (bodyPropertyNames.has(key)) {
-                            // This is a body parameter
-                            bodyParams[key] = value;
-                        }
-                    });
-
-                    // Replace path parameters in refPath
-                    let finalPath = refPath;
-                    Object.entries(pathParams).forEach(([key, value]) => {
-                        finalPath = finalPath.replace(`{${key}}`, String(value));
-                    });
-
-                    const query = new URLSearchParams(queryParams as any);
-
-                    if (method === "get") {
-                        const response = await this.sdk.client.fetch(finalPath, {
-                            method: method,
-                            headers: {
-                                "Content-Type": "application/json",
-                                "Accept": "application/json",
-                                "Authorization": `Bearer ${this.adminToken}`
-                            },
-                            query
-                        });
-                        return response;
-                    } else {
-                        const response = await this.sdk.client.fetch(finalPath, {
-                            method: method,
-                            headers: {
-                                "Content-Type": "application/json",
-                                "Accept": "application/json",
-                                "Authorization": `Bearer ${this.adminToken}`
-                            },
-                            query,
-                            body: bodyParams
-                        });
-                        return response;
+                    if (!input.order_id && input.display_id === undefined) {
+                        throw new ToolError(
+                            "Either order_id or display_id is required",
+                            "invalid_data"
+                        );
                     }
+                    const orderId =
+                        input.order_id ??
+                        (await findOrderIdByDisplayId(get, input.display_id));
+                    if (audit) {
+                        audit.method = "GET";
+                        audit.path = `/admin/orders/${orderId}`;
+                    }
+                    return await buildOrderOverview(get, orderId);
                 }
-            };
-        });
+            }))
+        ];
     }
 
     defineTools(admin = adminJson): any[] {
-        const paths = Object.entries(admin.paths) as [string, SdkRequestType][];
-        const tools = paths.map(([path, refFunction]) =>
-            this.wrapPath(path, refFunction)
+        return [
+            ...this.defineGeneratedTools(admin),
+            ...this.defineOrderTools()
+        ];
+    }
+
+    defineGeneratedTools(admin = adminJson): any[] {
+        return generateOpenApiTools({
+            document: admin,
+            baseUrl: this.baseUrl,
+            namePrefix: "Admin",
+            descriptionPrefix: "This tool helps store administors.",
+            auth: this.getAuthStrategy(),
+            requiresConfirmation: (tool) =>
+                destructiveToolsConfig.requireConfirmation &&
+                destructiveToolsConfig.rules.some((rule) =>
+                    matchesTool(tool, rule)
+                )
+        });
+    }
+
+    defineResources(admin = adminJson): RegisterableResource[] {
+        return [
+            defineSchemaResources("admin", admin),
+            ...defineEntityResources({
+                api: "admin",
+                document: admin,
+                baseUrl: this.baseUrl,
+                auth: this.getAuthStrategy(),
+                namePrefix: "Admin",
+                entities: [
+                    "orders",
+                    "draft-orders",
+                    "products",
+                    "customers",
+                    "inventory-items",
+                    "regions"
+                ]
+            })
+        ];
+    }
+
+    defineCompleters(admin = adminJson): Record<string, Completer> {
+        const auth = this.getAuthStrategy();
+        const idCompleters = Object.entries(ID_COMPLETION_SOURCES).flatMap(
+            ([name, source]) => {
+                const tool = getListToolName(admin, source.path, "Admin");
+                return tool
+                    ? [
+                          [
+                              name,
+                              defineListCompleter(
+                                  this.baseUrl,
+                                  auth,
+                                  source,
+                                  tool
+                              )
+                          ]
+                      ]
+                    : [];
+            }
         );
-        return tools;
+        return {
+            ...defineEnumCompleters(admin),
+            ...Object.fromEntries(idCompleters)
+        };
+    }
+
+    getAuthStrategy(): AuthStrategy {
+        return {
+            getHeaders: async (caller) => {
+                // Credentials sent by the MCP client win over the global ones
+                if (caller.adminApiKey) {
+                    return getApiKeyHeaders(caller.adminApiKey);
+                }
+                if (caller.adminToken) {
+                    return { Authorization: `Bearer ${caller.adminToken}` };
+                }
+                if (this.apiKey) {
+                    return getApiKeyHeaders(this.apiKey);
+                }
+                return {
+                    Authorization: `Bearer ${await this.getAdminToken()}`
+                };
+            },
+            onUnauthorized: async (caller) => {
+                // Only the server's own login can be renewed
+                if (caller.adminApiKey || caller.adminToken || this.apiKey) {
+                    return false;
+                }
+                await this.runAuth(() => this.login());
+                return true;
+            }
+        };
     }
 }
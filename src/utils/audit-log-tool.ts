@@ -0,0 +1,49 @@
+import { getAuditSink } from "./audit-log";
+import { describeCaller, getCallerCredentials } from "./caller-credentials";
+import { defineTool } from "./define-tools";
+import { ToolError } from "./error";
+
+export function defineAuditLogTools(): ReturnType<typeof defineTool>[] {
+    return [
+        defineTool((z) => ({
+            name: "AuditLogRecent",
+            description:
+                "List your most recent tool invocations recorded in the audit log, newest first: the calls of this MCP session and of your Medusa credentials. Inputs are redacted.",
+            inputSchema: {
+                limit: z.number().int().min(1).max(500).default(50),
+                tool: z
+                    .string()
+                    .optional()
+                    .describe("Only return calls of this tool"),
+                session_id: z
+                    .string()
+                    .optional()
+                    .describe("Only return calls from this MCP session")
+            },
+            handler: async (input, extra): Promise<any> => {
+                const sink = getAuditSink();
+                if (!sink) {
+                    throw new Error("The audit log is disabled");
+                }
+                // Callers only see their own entries, never those of others
+                const caller = describeCaller(
+                    getCallerCredentials(extra?.requestInfo?.headers)
+                );
+                if (!extra?.sessionId && caller.length === 0) {
+                    throw new ToolError(
+                        "The audit log can only be read from an MCP session or with your own Medusa credentials",
+                        "session_required"
+                    );
+                }
+                return {
+                    entries: await sink.recent({
+                        limit: input.limit,
+                        scope: { session_id: extra?.sessionId, caller },
+                        tool: input.tool,
+                        session_id: input.session_id
+                    })
+                };
+            }
+        }))
+    ];
+}
@@ -0,0 +1,198 @@
+import { promises as fs } from "node:fs";
+import path from "node:path";
+
+export type AuditEntry = {
+    timestamp: string;
+    session_id?: string;
+    client_id?: string;
+    user_agent?: string;
+    // Credential types and hashes of the caller, never the secrets themselves
+    caller?: string[];
+    tool: string;
+    method?: string;
+    path?: string;
+    // The call only returned a confirmation preview
+    preview?: boolean;
+    input: unknown;
+    status: "success" | "error";
+    http_status?: number;
+    error?: string;
+    duration_ms: number;
+};
+
+// Filled in by a tool handler with the request it sent to Medusa
+export type AuditDetails = {
+    method?: string;
+    path?: string;
+    preview?: boolean;
+    http_status?: number;
+};
+
+// Whose entries a query may return: those of an MCP session or a caller
+export type AuditScope = {
+    session_id?: string;
+    caller: string[];
+};
+
+export type AuditQuery = {
+    limit: number;
+    scope: AuditScope;
+    tool?: string;
+    session_id?: string;
+};
+
+export interface AuditSink {
+    write(entry: AuditEntry): Promise<void>;
+    recent(query: AuditQuery): Promise<AuditEntry[]>;
+}
+
+const READ_CHUNK_SIZE = 64 * 1024;
+
+// Yield the lines of a file from last to first, reading it in chunks from
+// the end so the whole log is never held in memory
+async function* readLinesBackwards(filePath: string): AsyncGenerator<string> {
+    const handle = await fs.open(filePath, "r");
+    try {
+        let position = (await handle.stat()).size;
+        let leftover = Buffer.alloc(0);
+        while (position > 0) {
+            const size = Math.min(READ_CHUNK_SIZE, position);
+            position -= size;
+            const chunk = Buffer.alloc(size);
+            await handle.read(chunk, 0, size, position);
+            // A newline byte never occurs inside a multi-byte UTF-8 character
+            const buffer = Buffer.concat([chunk, leftover]);
+            let end = buffer.length;
+            for (let i = buffer.length - 1; i >= 0; i--) {
+                if (buffer[i] === 0x0a) {
+                    yield buffer.toString("utf8", i + 1, end);
+                    end = i;
+                }
+            }
+            leftover = buffer.subarray(0, end);
+        }
+        if (leftover.length > 0) {
+            yield leftover.toString("utf8");
+        }
+    } finally {
+        await handle.close();
+    }
+}
+
+// Lines cut short by a crash or a concurrent write are skipped
+function parseEntry(line: string): AuditEntry | undefined {
+    if (!line.trim()) {
+        return undefined;
+    }
+    try {
+        return JSON.parse(line) as AuditEntry;
+    } catch {
+        return undefined;
+    }
+}
+
+function matchesQuery(entry: AuditEntry, query: AuditQuery): boolean {
+    const { scope } = query;
+    const inScope =
+        (scope.session_id !== undefined &&
+            entry.session_id === scope.session_id) ||
+        (entry.caller ?? []).some((identity) =>
+            scope.caller.includes(identity)
+        );
+    return (
+        inScope &&
+        (!query.tool || entry.tool === query.tool) &&
+        (!query.session_id || entry.session_id === query.session_id)
+    );
+}
+
+/**
+ * Appends one JSON line per entry to a file.
+ */
+export class JsonlAuditSink implements AuditSink {
+    private ready?: Promise<unknown>;
+
+    constructor(private filePath: string) {}
+
+    async write(entry: AuditEntry): Promise<void> {
+        this.ready ??= fs.mkdir(path.dirname(this.filePath), {
+            recursive: true
+        });
+        await this.ready;
+        await fs.appendFile(this.filePath, `${JSON.stringify(entry)}\n`);
+    }
+
+    async recent(query: AuditQuery): Promise<AuditEntry[]> {
+        const entries: AuditEntry[] = [];
+        try {
+            for await (const line of readLinesBackwards(this.filePath)) {
+                if (entries.length >= query.limit) {
+                    break;
+                }
+                const entry = parseEntry(line);
+                if (entry && matchesQuery(entry, query)) {
+                    entries.push(entry);
+                }
+            }
+        } catch (error) {
+            if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+                return [];
+            }
+            throw error;
+        }
+        return entries;
+    }
+}
+
+// AUDIT_LOG_FILE=off disables the default file sink
+function createDefaultSink(): AuditSink | undefined {
+    const filePath = process.env.AUDIT_LOG_FILE ?? "logs/audit.jsonl";
+    return filePath === "off" ? undefined : new JsonlAuditSink(filePath);
+}
+
+let sink: AuditSink | undefined | null = null;
+
+export function getAuditSink(): AuditSink | undefined {
+    if (sink === null) {
+        sink = createDefaultSink();
+    }
+    return sink;
+}
+
+// Replace the sink, e.g. to ship entries somewhere else
+export function setAuditSink(newSink: AuditSink | undefined): void {
+    sink = newSink;
+}
+
+const SECRET_KEY_PATTERN =
+    /password|secret|token|api_?key|authorization|credential/i;
+
+export function redactInput(value: unknown): unknown {
+    if (Array.isArray(value)) {
+        return value.map(redactInput);
+    }
+    if (value && typeof value === "object") {
+        return Object.fromEntries(
+            Object.entries(value).map(([key, nested]) => [
+                key,
+                SECRET_KEY_PATTERN.test(key)
+                    ? "[REDACTED]"
+                    : redactInput(nested)
+            ])
+        );
+    }
+    return value;
+}
+
+// Failures are logged and never affect the tool call being audited
+export async function recordAuditEntry(entry: AuditEntry): Promise<void> {
+    const auditSink = getAuditSink();
+    if (!auditSink) {
+        return;
+    }
+    try {
+        await auditSink.write(entry);
+    } catch (error) {
+        console.error("Error writing audit log entry:", error);
+    }
+}
@@ -0,0 +1,77 @@
+import { createHash } from "node:crypto";
+import { IsomorphicHeaders } from "@modelcontextprotocol/sdk/types.js";
+
+// Headers an MCP client can send on `/mcp` to act with its own credentials
+export const ADMIN_TOKEN_HEADER = "x-medusa-admin-token";
+export const ADMIN_API_KEY_HEADER = "x-medusa-admin-api-key";
+export const PUBLISHABLE_KEY_HEADER = "x-medusa-publishable-key";
+export const CUSTOMER_TOKEN_HEADER = "x-medusa-customer-token";
+
+export type CallerCredentials = {
+    adminToken?: string;
+    adminApiKey?: string;
+    publishableKey?: string;
+    customerToken?: string;
+    sessionId?: string;
+};
+
+function readHeader(
+    headers: IsomorphicHeaders | undefined,
+    name: string
+): string | undefined {
+    const value = headers?.[name];
+    const first = Array.isArray(value) ? value[0] : value;
+    return first?.trim() || undefined;
+}
+
+// Tokens may be sent bare or with a `Bearer ` prefix
+function readToken(
+    headers: IsomorphicHeaders | undefined,
+    name: string
+): string | undefined {
+    return readHeader(headers, name)?.replace(/^Bearer\s+/i, "");
+}
+
+/**
+ * Extract the Medusa credentials a caller attached to its MCP request.
+ * @param headers - the HTTP headers of the `/mcp` request, if any
+ * @param sessionId - the MCP session the request belongs to, if any
+ * @return the credentials found; empty when the caller sent none
+ */
+export function getCallerCredentials(
+    headers: IsomorphicHeaders | undefined,
+    sessionId?: string
+): CallerCredentials {
+    return {
+        adminToken: readToken(headers, ADMIN_TOKEN_HEADER),
+        adminApiKey: readHeader(headers, ADMIN_API_KEY_HEADER),
+        publishableKey: readHeader(headers, PUBLISHABLE_KEY_HEADER),
+        customerToken: readToken(headers, CUSTOMER_TOKEN_HEADER),
+        sessionId
+    };
+}
+
+/**
+ * Identify a caller by the types and short sha256 hashes of its credentials,
+ * e.g. `admin-api-key:1a2b3c4d5e6f`, never by the secrets themselves.
+ * @param caller - the caller's credentials
+ * @return one identity per credential
+ */
+export function describeCaller(caller: CallerCredentials): string[] {
+    const hash = (secret: string): string =>
+        createHash("sha256").update(secret).digest("hex").slice(0, 12);
+    const identities: string[] = [];
+    if (caller.adminApiKey) {
+        identities.push(`admin-api-key:${hash(caller.adminApiKey)}`);
+    }
+    if (caller.adminToken) {
+        identities.push(`admin-token:${hash(caller.adminToken)}`);
+    }
+    if (caller.publishableKey) {
+        identities.push(`publishable-key:${hash(caller.publishableKey)}`);
+    }
+    if (caller.customerToken) {
+        identities.push(`customer-token:${hash(caller.customerToken)}`);
+    }
+    return identities;
+}
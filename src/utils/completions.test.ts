@@ -0,0 +1,23 @@
+import { describe, expect, it } from "vitest";
+import adminJson from "../oas/admin.json";
+import { defineEnumCompleters } from "./completions";
+
+describe("defineEnumCompleters", () => {
+    const completers = defineEnumCompleters(adminJson);
+
+    it("keys enum completers by schema and property", async () => {
+        await expect(
+            completers["AdminOrder.fulfillment_status"]("partially")
+        ).resolves.toEqual([
+            "partially_fulfilled",
+            "partially_shipped",
+            "partially_delivered"
+        ]);
+    });
+
+    it("does not complete by the bare property name", () => {
+        expect(completers.code).toBeUndefined();
+        expect(completers.reason).toBeUndefined();
+        expect(completers.fulfillment_status).toBeUndefined();
+    });
+});
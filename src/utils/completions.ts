@@ -0,0 +1,200 @@
+import { OpenApiDocument } from "./json-schema-to-zod";
+import { AuthStrategy, sendAuthenticatedRequest } from "./openapi-tools";
+
+// Suggestions for a single completion request
+const MAX_COMPLETIONS = 20;
+
+export type Completer = ((value: string) => Promise<string[]>) & {
+    // Tool a profile must admit to be served the completer. Completion
+    // requests carry no caller, so list lookups run with the server's
+    // credentials and must not reveal more than the profile's tools do.
+    tool?: string;
+};
+
+export type ListCompletionSource = {
+    // List route searched with `q`, e.g. `/admin/regions`
+    path: string;
+    // Field of the records to suggest (default `id`)
+    valueField?: string;
+};
+
+/**
+ * Name of the generated tool for the GET operation of a list route.
+ * @param document - the OpenAPI document
+ * @param path - the list route, e.g. `/admin/regions`
+ * @param namePrefix - prefix of the generated tool names
+ * @return the tool name, or undefined when the route has no GET operation
+ */
+export function getListToolName(
+    document: OpenApiDocument,
+    path: string,
+    namePrefix = ""
+): string | undefined {
+    const operationId = document.paths?.[path]?.get?.operationId;
+    return operationId ? `${namePrefix}${operationId}` : undefined;
+}
+
+/**
+ * Complete a value by searching a list route with `q`. Completion requests
+ * carry no caller, so the server's own credentials are used and the
+ * completer is only served to profiles admitting the route's list tool.
+ * @param baseUrl - the Medusa backend URL
+ * @param auth - the auth strategy providing the headers
+ * @param source - the list route and the field to suggest
+ * @param tool - the generated tool listing the same records
+ * @return the completer
+ */
+export function defineListCompleter(
+    baseUrl: string,
+    auth: AuthStrategy,
+    source: ListCompletionSource,
+    tool: string
+): Completer {
+    const valueField = source.valueField ?? "id";
+    const complete = async (value: string): Promise<string[]> => {
+        try {
+            const response = await sendAuthenticatedRequest(
+                baseUrl,
+                auth,
+                {},
+                source.path,
+                {
+                    method: "get",
+                    query: {
+                        q: value || undefined,
+                        limit: MAX_COMPLETIONS,
+                        fields: valueField
+                    }
+                }
+            );
+            const records: Record<string, any>[] =
+                Object.values(response ?? {}).find(Array.isArray) ?? [];
+            return records
+                .map((record) => record[valueField])
+                .filter((field) => field !== undefined && field !== null)
+                .map(String);
+        } catch (error) {
+            // A failing lookup only means no suggestions
+            console.error(`Error completing from ${source.path}:`, error);
+            return [];
+        }
+    };
+    return Object.assign(complete, { tool });
+}
+
+/**
+ * Keep the completers a profile may use: those without a tool and those
+ * whose tool the profile admits.
+ * @param completers - the completers keyed by name
+ * @param toolNames - the tools of the profile
+ * @return the admitted completers
+ */
+export function admitCompleters(
+    completers: Record<string, Completer>,
+    toolNames: Set<string>
+): Record<string, Completer> {
+    return Object.fromEntries(
+        Object.entries(completers).filter(
+            ([, completer]) => !completer.tool || toolNames.has(completer.tool)
+        )
+    );
+}
+
+/**
+ * Merge the completers of several services. Completers sharing a name, such
+ * as the `currency_code` of two store channels, are all asked and their
+ * suggestions combined.
+ * @param completerSets - the completers of each service
+ * @return the merged completers keyed by name
+ */
+export function mergeCompleters(
+    ...completerSets: Record<string, Completer>[]
+): Record<string, Completer> {
+    const byName = new Map<string, Completer[]>();
+    completerSets.forEach((completers) =>
+        Object.entries(completers).forEach(([name, completer]) =>
+            byName.set(name, [...(byName.get(name) ?? []), completer])
+        )
+    );
+
+    const merged: Record<string, Completer> = {};
+    byName.forEach((completers, name) => {
+        merged[name] =
+            completers.length === 1
+                ? completers[0]
+                : async (value) => {
+                      const suggestions = await Promise.all(
+                          completers.map((completer) => completer(value))
+                      );
+                      return [...new Set(suggestions.flat())].slice(
+                          0,
+                          MAX_COMPLETIONS
+                      );
+                  };
+    });
+    return merged;
+}
+
+export function defineEnumCompleter(values: string[]): Completer {
+    return async (value) =>
+        values
+            .filter((candidate) =>
+                candidate.toLowerCase().startsWith(value.toLowerCase())
+            )
+            .slice(0, MAX_COMPLETIONS);
+}
+
+// String enum values of a property, also inside array items and unions
+function findEnumValues(schema: any): string[] | undefined {
+    if (!schema || typeof schema !== "object") {
+        return undefined;
+    }
+    if (Array.isArray(schema.enum)) {
+        return schema.enum.every((value: unknown) => typeof value === "string")
+            ? schema.enum
+            : undefined;
+    }
+    const members: any[] = [
+        ...(schema.oneOf ?? []),
+        ...(schema.anyOf ?? []),
+        ...(schema.items ? [schema.items] : [])
+    ];
+    for (const member of members) {
+        const values = findEnumValues(member);
+        if (values?.length) {
+            return values;
+        }
+    }
+    return undefined;
+}
+
+/**
+ * Build enum completers for every string enum property of the document's
+ * component schemas. Each is keyed `<Schema>.<property>`, e.g.
+ * `AdminOrder.fulfillment_status`, never by the bare property name, so
+ * unrelated enums such as the error `code` do not complete an argument that
+ * merely shares their name.
+ * @param document - the OpenAPI document
+ * @return the completers keyed by name
+ */
+export function defineEnumCompleters(
+    document: OpenApiDocument
+): Record<string, Completer> {
+    const completers: Record<string, Completer> = {};
+
+    Object.entries(document.components?.schemas ?? {}).forEach(
+        ([schemaName, schema]) => {
+            Object.entries(schema?.properties ?? {}).forEach(
+                ([property, propertySchema]) => {
+                    const enumValues = findEnumValues(propertySchema);
+                    if (!enumValues?.length) {
+                        return;
+                    }
+                    completers[`${schemaName}.${property}`] =
+                        defineEnumCompleter(enumValues);
+                }
+            );
+        }
+    );
+    return completers;
+}
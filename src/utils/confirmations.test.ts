@@ -0,0 +1,39 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { consumeConfirmation, createConfirmation } from "./confirmations";
+
+const FINGERPRINT = "DELETE /admin/orders/order_1";
+
+describe("confirmation tokens", () => {
+    afterEach(() => {
+        vi.useRealTimers();
+    });
+
+    it("confirm their request only once", () => {
+        const { token } = createConfirmation(FINGERPRINT);
+
+        expect(consumeConfirmation(token, FINGERPRINT)).toBe(true);
+        expect(consumeConfirmation(token, FINGERPRINT)).toBe(false);
+    });
+
+    it("do not confirm another request", () => {
+        const { token } = createConfirmation(FINGERPRINT);
+
+        expect(consumeConfirmation(token, "DELETE /admin/orders/order_2")).toBe(
+            false
+        );
+        expect(consumeConfirmation(token, FINGERPRINT)).toBe(true);
+    });
+
+    it("refuse unknown tokens", () => {
+        expect(consumeConfirmation("not-a-token", FINGERPRINT)).toBe(false);
+    });
+
+    it("expire after five minutes", () => {
+        vi.useFakeTimers();
+        const { token, expiresAt } = createConfirmation(FINGERPRINT);
+
+        expect(Date.parse(expiresAt) - Date.now()).toBe(5 * 60 * 1000);
+        vi.advanceTimersByTime(5 * 60 * 1000);
+        expect(consumeConfirmation(token, FINGERPRINT)).toBe(false);
+    });
+});
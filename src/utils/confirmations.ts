@@ -0,0 +1,56 @@
+import { randomUUID } from "node:crypto";
+
+// How long a preview's confirmation token stays valid
+const CONFIRMATION_TTL_MS = 5 * 60 * 1000;
+
+type PendingConfirmation = {
+    fingerprint: string;
+    expiresAt: number;
+};
+
+const pending = new Map<string, PendingConfirmation>();
+
+/**
+ * Issue a one-time token that confirms the request identified by
+ * `fingerprint`.
+ * @param fingerprint - a stable description of the previewed request
+ * @return the token and when it expires
+ */
+export function createConfirmation(fingerprint: string): {
+    token: string;
+    expiresAt: string;
+} {
+    const now = Date.now();
+    for (const [token, confirmation] of pending) {
+        if (confirmation.expiresAt <= now) {
+            pending.delete(token);
+        }
+    }
+
+    const token = randomUUID();
+    const expiresAt = now + CONFIRMATION_TTL_MS;
+    pending.set(token, { fingerprint, expiresAt });
+    return { token, expiresAt: new Date(expiresAt).toISOString() };
+}
+
+/**
+ * Use up a token; it is only valid for the exact request it was issued for.
+ * @param token - the token from the preview
+ * @param fingerprint - the fingerprint of the request being confirmed
+ * @return whether the token confirms this request
+ */
+export function consumeConfirmation(
+    token: string,
+    fingerprint: string
+): boolean {
+    const confirmation = pending.get(token);
+    if (
+        !confirmation ||
+        confirmation.expiresAt <= Date.now() ||
+        confirmation.fingerprint !== fingerprint
+    ) {
+        return false;
+    }
+    pending.delete(token);
+    return true;
+}
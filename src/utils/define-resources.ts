@@ -0,0 +1,67 @@
+import { ReadResourceTemplateCallback } from "@modelcontextprotocol/sdk/server/mcp.js";
+import {
+    ListResourcesResult,
+    ReadResourceResult
+} from "@modelcontextprotocol/sdk/types.js";
+import { Completer } from "./completions";
+import { ToolHandlerExtra } from "./define-tools";
+
+export type ResourceListEntry = ListResourcesResult["resources"][number];
+
+export type ResourceDefinition = {
+    name: string;
+    // RFC 6570 URI template, e.g. `medusa://schema/admin/{name}`
+    uriTemplate: string;
+    description: string;
+    mimeType?: string;
+    // Only served to profiles that admit this tool
+    tool?: string;
+    // Only listed to profiles that admit this tool
+    listTool?: string;
+    list?: (extra: ToolHandlerExtra) => Promise<ResourceListEntry[]>;
+    complete?: Record<string, Completer>;
+    read: (
+        variables: Record<string, string>,
+        extra: ToolHandlerExtra
+    ) => Promise<unknown>;
+};
+
+export type RegisterableResource = Omit<ResourceDefinition, "read"> & {
+    read: ReadResourceTemplateCallback;
+};
+
+/**
+ * Define an MCP resource template whose read callback returns any value,
+ * served as a single JSON document.
+ * @param resource - the resource template definition
+ * @return the resource with its read callback wrapped into an MCP result
+ */
+export const defineResource = (
+    resource: ResourceDefinition
+): RegisterableResource => {
+    const mimeType = resource.mimeType ?? "application/json";
+    const read = async (
+        uri: URL,
+        variables: Record<string, string | string[]>,
+        extra: ToolHandlerExtra
+    ): Promise<ReadResourceResult> => {
+        // Single-valued template variables only
+        const values = Object.fromEntries(
+            Object.entries(variables).map(([key, value]) => [
+                key,
+                Array.isArray(value) ? value[0] : value
+            ])
+        );
+        const result = await resource.read(values, extra);
+        return {
+            contents: [
+                {
+                    uri: uri.href,
+                    mimeType,
+                    text: JSON.stringify(result, null, 2)
+                }
+            ]
+        };
+    };
+    return { ...resource, mimeType, read };
+};
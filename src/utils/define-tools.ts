@@ -1,11 +1,38 @@
 import { z, ZodAny, ZodType } from "zod";
-import { CallToolResult } from "@modelcontextprotocol/sdk/types.js";
+import {
+    CallToolResult,
+    ServerNotification,
+    ServerRequest,
+    ToolAnnotations
+} from "@modelcontextprotocol/sdk/types.js";
+import { RequestHandlerExtra } from "@modelcontextprotocol/sdk/shared/protocol.js";
+import { AuditDetails, recordAuditEntry, redactInput } from "./audit-log";
+import { describeCaller, getCallerCredentials } from "./caller-credentials";
+import { formatErrorResponse, toToolError } from "./error";
+
+export type ToolHandlerExtra = RequestHandlerExtra<
+    ServerRequest,
+    ServerNotification
+>;
 
 export type ToolDefinition<T, R extends ZodType, O> = {
     name: string;
     description: string;
     inputSchema: T;
-    handler: (input: InferToolHandlerInput<T, R>) => Promise<O>;
+    // OpenAPI details of generated tools, used for filtering
+    method?: string;
+    path?: string;
+    tags?: string[];
+    annotations?: ToolAnnotations;
+    // Only served on transports that keep an MCP session
+    requiresSession?: boolean;
+    // Renders a successful result, pretty-printed JSON by default
+    formatResult?: (result: O, input: InferToolHandlerInput<T, R>) => string;
+    handler: (
+        input: InferToolHandlerInput<T, R>,
+        extra?: ToolHandlerExtra,
+        audit?: AuditDetails
+    ) => Promise<O>;
 };
 
 export type InferToolHandlerInput<T, X extends ZodType> = {
@@ -19,36 +46,55 @@ export const defineTool = (
 
     const wrappedHandler = async (
         input: InferToolHandlerInput<any, any>,
-        _extra: unknown
+        extra?: ToolHandlerExtra
     ): Promise<{
         content: CallToolResult["content"];
         isError?: boolean;
         statusCode?: number;
     }> => {
+        const startedAt = Date.now();
+        const audit: AuditDetails = {};
+        const headers = extra?.requestInfo?.headers;
+        const userAgent = headers?.["user-agent"];
+        const auditEntry = {
+            timestamp: new Date(startedAt).toISOString(),
+            session_id: extra?.sessionId,
+            client_id: extra?.authInfo?.clientId,
+            user_agent: Array.isArray(userAgent) ? userAgent[0] : userAgent,
+            caller: describeCaller(getCallerCredentials(headers)),
+            tool: tool.name,
+            input: redactInput(input)
+        };
+
         try {
-            const result = await tool.handler(input);
+            const result = await tool.handler(input, extra, audit);
+            await recordAuditEntry({
+                ...auditEntry,
+                ...audit,
+                status: "success",
+                duration_ms: Date.now() - startedAt
+            });
             return {
                 content: [
                     {
                         type: "text",
-                        text: JSON.stringify(result, null, 2)
+                        text: tool.formatResult
+                            ? tool.formatResult(result, input)
+                            : JSON.stringify(result, null, 2)
                     }
                 ]
             };
         } catch (error) {
-            return {
-                content: [
-                    {
-                        type: "text",
-                        text: `Error: ${
-                            error instanceof Error
-                                ? error.message
-                                : String(error)
-                        }`
-                    }
-                ],
-                isError: true
-            };
+            const toolError = toToolError(error);
+            await recordAuditEntry({
+                ...auditEntry,
+                ...audit,
+                status: "error",
+                http_status: toolError.details?.status,
+                error: toolError.message,
+                duration_ms: Date.now() - startedAt
+            });
+            return formatErrorResponse(toolError);
         }
     };
 
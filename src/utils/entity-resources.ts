@@ -0,0 +1,135 @@
+import { CallerCredentials, getCallerCredentials } from "./caller-credentials";
+import { defineListCompleter, getListToolName } from "./completions";
+import {
+    defineResource,
+    RegisterableResource,
+    ResourceListEntry
+} from "./define-resources";
+import { ToolHandlerExtra } from "./define-tools";
+import { OpenApiDocument } from "./json-schema-to-zod";
+import { AuthStrategy, sendAuthenticatedRequest } from "./openapi-tools";
+
+// Records offered when a client lists the resources of an entity
+const LISTED_RECORDS = 20;
+
+export type EntityResourceOptions = {
+    // The API the entities belong to, `admin` or `store`
+    api: string;
+    // Keeps the resources of several services apart in names and URIs,
+    // e.g. `store-eu`; defaults to the API
+    namespace?: string;
+    document: OpenApiDocument;
+    // The Medusa backend URL
+    baseUrl: string;
+    auth: AuthStrategy;
+    // Prefix of the generated tool names, to match the backing GET tool
+    namePrefix?: string;
+    // Route segments such as `orders` or `inventory-items`
+    entities: string[];
+};
+
+export function getEntityUri(
+    namespace: string,
+    entity: string,
+    id: string
+): string {
+    return `medusa://${namespace}/${entity}/${id}`;
+}
+
+// A human readable name for a listed record
+function describeRecord(record: Record<string, any>): string {
+    if (record.display_id !== undefined) {
+        return `#${record.display_id} (${record.id})`;
+    }
+    const label = record.title ?? record.name ?? record.email ?? record.sku;
+    return label ? `${label} (${record.id})` : record.id;
+}
+
+/**
+ * Serve single records of Medusa entities as resources under
+ * `medusa://<namespace>/<entity>/{id}`, read through the same GET routes as the
+ * generated tools and with the caller's credentials. Entities without a
+ * `/<api>/<entity>/{id}` GET route in the document are skipped.
+ * @param options - the API, document, backend URL, auth strategy and entities
+ * @return one resource template per entity
+ */
+export function defineEntityResources(
+    options: EntityResourceOptions
+): RegisterableResource[] {
+    const { api, document, baseUrl, auth } = options;
+    const namespace = options.namespace ?? api;
+
+    const getCaller = (extra: ToolHandlerExtra): CallerCredentials =>
+        getCallerCredentials(extra.requestInfo?.headers, extra.sessionId);
+
+    return options.entities.flatMap((entity) => {
+        const listPath = `/${api}/${entity}`;
+        const itemPath = `${listPath}/{id}`;
+        const operation = document.paths?.[itemPath]?.get;
+        if (!operation?.operationId) {
+            return [];
+        }
+        const listTool = getListToolName(
+            document,
+            listPath,
+            options.namePrefix
+        );
+
+        const list = async (
+            extra: ToolHandlerExtra
+        ): Promise<ResourceListEntry[]> => {
+            try {
+                const response = await sendAuthenticatedRequest(
+                    baseUrl,
+                    auth,
+                    getCaller(extra),
+                    listPath,
+                    {
+                        method: "get",
+                        query: { limit: LISTED_RECORDS, order: "-created_at" }
+                    }
+                );
+                const records: Record<string, any>[] =
+                    Object.values(response ?? {}).find(Array.isArray) ?? [];
+                return records.map((record) => ({
+                    uri: getEntityUri(namespace, entity, record.id),
+                    name: describeRecord(record),
+                    mimeType: "application/json"
+                }));
+            } catch (error) {
+                // One failing entity must not break the whole listing
+                console.error(`Error listing ${listPath}:`, error);
+                return [];
+            }
+        };
+
+        return [
+            defineResource({
+                name: `${namespace}-${entity}`,
+                uriTemplate: getEntityUri(namespace, entity, "{id}"),
+                description: `A ${api} ${entity} record by ID, as returned by GET ${itemPath}. Listing returns the ${LISTED_RECORDS} most recent ones.`,
+                tool: `${options.namePrefix ?? ""}${operation.operationId}`,
+                listTool,
+                list: listTool ? list : undefined,
+                complete: listTool
+                    ? {
+                          id: defineListCompleter(
+                              baseUrl,
+                              auth,
+                              { path: listPath },
+                              listTool
+                          )
+                      }
+                    : undefined,
+                read: async ({ id }, extra) =>
+                    sendAuthenticatedRequest(
+                        baseUrl,
+                        auth,
+                        getCaller(extra),
+                        `${listPath}/${encodeURIComponent(id)}`,
+                        { method: "get" }
+                    )
+            })
+        ];
+    });
+}
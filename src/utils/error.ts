@@ -1,3 +1,6 @@
+import { FetchError } from "@medusajs/js-sdk";
+import { CallToolResult } from "@modelcontextprotocol/sdk/types.js";
+
 export class ToolError extends Error {
     constructor(
         message: string,
@@ -9,6 +12,146 @@ export class ToolError extends Error {
     }
 }
 
-export function formatErrorResponse(error: unknown) {
-    // Format the error response according to the MCP protocol
+// Fallback error types for responses whose body names none
+const STATUS_CODES: Record<number, string> = {
+    400: "invalid_data",
+    401: "unauthorized",
+    403: "not_allowed",
+    404: "not_found",
+    409: "conflict",
+    422: "duplicate_error",
+    429: "rate_limited",
+    500: "unexpected_error",
+    502: "backend_unavailable",
+    503: "backend_unavailable",
+    504: "backend_unavailable"
+};
+
+const HINTS: Record<string, string> = {
+    invalid_data:
+        "Check the input against the tool's schema and the validation message, then retry with corrected values.",
+    unauthorized:
+        "The Medusa credentials are missing, invalid or expired. Send valid credentials, or log in again for customer tools.",
+    not_allowed:
+        "The caller is not permitted to do this. Do not retry with the same credentials.",
+    not_found:
+        "The resource does not exist. Look up the correct ID with a list tool before retrying.",
+    duplicate_error:
+        "A record with these values already exists. Look it up instead of creating it again.",
+    conflict:
+        "The resource already exists or is in a state that does not allow this. Fetch its current state before retrying.",
+    unexpected_state:
+        "The resource is in a state that does not allow this. Fetch its current state before retrying.",
+    rate_limited: "Too many requests. Wait before retrying.",
+    unexpected_error:
+        "Medusa failed to handle the request. Retrying may not help; report the message to the user.",
+    backend_unavailable:
+        "The Medusa backend could not be reached. Retry later.",
+    invalid_confirmation:
+        "Call the tool without confirmation_token to get a new preview and token.",
+    session_required:
+        "Use a stateful MCP session, or pass the credentials as HTTP headers."
+};
+
+function getStatusCode(status: number): string {
+    return (
+        STATUS_CODES[status] ??
+        (status >= 500 ? "unexpected_error" : "invalid_data")
+    );
+}
+
+/**
+ * Build a ToolError from a failed Medusa response. Medusa names the error
+ * in the body's `type`, e.g. `not_allowed` or `duplicate_error`; the status
+ * is only used when the body has none.
+ * @param status - the HTTP status of the response
+ * @param body - the parsed response body
+ * @return the error as a ToolError
+ */
+export function fromMedusaResponse(status: number, body: any): ToolError {
+    const type = typeof body?.type === "string" ? body.type : undefined;
+    let message = `Medusa answered with status ${status}`;
+    if (typeof body?.message === "string") {
+        message = body.message;
+    } else if (typeof body === "string" && body) {
+        message = body;
+    }
+    return new ToolError(message, type ?? getStatusCode(status), {
+        status,
+        ...(typeof body?.code === "string" ? { medusa_code: body.code } : {})
+    });
+}
+
+// `fetch` rejects with a TypeError when the backend cannot be reached
+function isNetworkError(error: unknown): boolean {
+    return error instanceof TypeError && error.message === "fetch failed";
+}
+
+/**
+ * Map any error thrown by a tool into a ToolError. Medusa's FetchError, as
+ * thrown by the SDK, only keeps its HTTP status, so its type is recovered
+ * from the status. Unreachable backends become `backend_unavailable`.
+ * @param error - the thrown value
+ * @return the error as a ToolError
+ */
+export function toToolError(error: unknown): ToolError {
+    if (error instanceof ToolError) {
+        return error;
+    }
+    if (error instanceof FetchError) {
+        return new ToolError(error.message, getStatusCode(error.status ?? 0), {
+            status: error.status
+        });
+    }
+    if (isNetworkError(error)) {
+        return new ToolError(
+            "The Medusa backend could not be reached",
+            "backend_unavailable",
+            { cause: String((error as { cause?: unknown }).cause ?? error) }
+        );
+    }
+    if (error instanceof Error) {
+        return new ToolError(error.message, "unexpected_error");
+    }
+    return new ToolError(String(error), "unexpected_error");
+}
+
+/**
+ * Render an error as an MCP tool result the model can act on: a JSON body
+ * with the HTTP status, the error type and a hint on what to do next.
+ * @param error - the thrown value
+ * @return the tool result with `isError` set
+ */
+export function formatErrorResponse(error: unknown): CallToolResult & {
+    statusCode?: number;
+} {
+    const toolError = toToolError(error);
+    const { status, hint, ...details } = toolError.details ?? {};
+    return {
+        content: [
+            {
+                type: "text",
+                text: JSON.stringify(
+                    {
+                        error: {
+                            status,
+                            type: toolError.code,
+                            message: toolError.message,
+                            hint:
+                                hint ??
+                                HINTS[toolError.code] ??
+                                (status
+                                    ? HINTS[getStatusCode(status)]
+                                    : undefined),
+                            ...(Object.keys(details).length ? { details } : {})
+                        }
+                    },
+                    null,
+                    2
+                )
+            }
+        ],
+        isError: true,
+        statusCode: status
+    };
 }
@@ -0,0 +1,313 @@
+import { z, ZodTypeAny } from "zod";
+
+export type OpenApiDocument = {
+    paths?: Record<string, any>;
+    components?: {
+        schemas?: Record<string, any>;
+    };
+};
+
+const SCHEMA_REF_PREFIX = "#/components/schemas/";
+
+// Resolve a `#/components/schemas/...` reference against the given document
+export function resolveSchemaRef(schema: any, document: OpenApiDocument): any {
+    if (!schema) {
+        return null;
+    }
+
+    if (schema.$ref) {
+        const refPath = String(schema.$ref).replace(SCHEMA_REF_PREFIX, "");
+        return document.components?.schemas?.[refPath] ?? null;
+    }
+
+    return schema;
+}
+
+function withStringConstraints(
+    schema: any,
+    zodSchema: z.ZodString
+): ZodTypeAny {
+    let result = zodSchema;
+    if (typeof schema.minLength === "number") {
+        result = result.min(schema.minLength);
+    }
+    if (typeof schema.maxLength === "number") {
+        result = result.max(schema.maxLength);
+    }
+    if (typeof schema.pattern === "string") {
+        try {
+            result = result.regex(new RegExp(schema.pattern));
+        } catch {
+            // Patterns that are not valid JavaScript regexes are ignored
+        }
+    }
+    return result;
+}
+
+function convertString(schema: any): ZodTypeAny {
+    switch (schema.format) {
+        case "date-time":
+            return withStringConstraints(
+                schema,
+                z.string().datetime({ offset: true })
+            );
+        case "date":
+            return withStringConstraints(schema, z.string().date());
+        case "email":
+            return withStringConstraints(schema, z.string().email());
+        case "uri":
+        case "url":
+            return withStringConstraints(schema, z.string().url());
+        case "uuid":
+            return withStringConstraints(schema, z.string().uuid());
+        default:
+            return withStringConstraints(schema, z.string());
+    }
+}
+
+function convertNumber(schema: any, integer: boolean): ZodTypeAny {
+    let result = integer ? z.number().int() : z.number();
+    if (typeof schema.minimum === "number") {
+        result = result.min(schema.minimum);
+    }
+    if (typeof schema.maximum === "number") {
+        result = result.max(schema.maximum);
+    }
+    if (typeof schema.exclusiveMinimum === "number") {
+        result = result.gt(schema.exclusiveMinimum);
+    } else if (
+        schema.exclusiveMinimum === true &&
+        typeof schema.minimum === "number"
+    ) {
+        result = result.gt(schema.minimum);
+    }
+    if (typeof schema.exclusiveMaximum === "number") {
+        result = result.lt(schema.exclusiveMaximum);
+    } else if (
+        schema.exclusiveMaximum === true &&
+        typeof schema.maximum === "number"
+    ) {
+        result = result.lt(schema.maximum);
+    }
+    return result;
+}
+
+function convertEnum(values: any[]): ZodTypeAny {
+    if (values.length > 0 && values.every((v) => typeof v === "string")) {
+        return z.enum(values as [string, ...string[]]);
+    }
+    const literals = values.filter((v) => v !== null).map((v) => z.literal(v));
+    let result: ZodTypeAny;
+    if (literals.length === 0) {
+        result = z.null();
+    } else if (literals.length === 1) {
+        result = literals[0];
+    } else {
+        result = z.union(
+            literals as unknown as [ZodTypeAny, ZodTypeAny, ...ZodTypeAny[]]
+        );
+    }
+    return values.includes(null) ? result.nullable() : result;
+}
+
+// Medusa filter objects such as `{ $eq, $ne, $in, $gt, ... }`
+function isOperatorObject(schema: any): boolean {
+    const keys = Object.keys(schema.properties ?? {});
+    return keys.length > 0 && keys.every((key) => key.startsWith("$"));
+}
+
+// Operator values without their descriptions and titles, with nested filter
+// objects such as the `$not` conditions collapsed to plain objects
+function simplifyOperatorValue(schema: any): any {
+    if (Array.isArray(schema)) {
+        return schema.map(simplifyOperatorValue);
+    }
+    if (!schema || typeof schema !== "object") {
+        return schema;
+    }
+    if (isOperatorObject(schema)) {
+        return { type: "object" };
+    }
+    return Object.fromEntries(
+        Object.entries(schema)
+            .filter(
+                ([key, value]) =>
+                    !(
+                        (key === "description" || key === "title") &&
+                        typeof value === "string"
+                    )
+            )
+            .map(([key, value]) => [key, simplifyOperatorValue(value)])
+    );
+}
+
+// Every filter field repeats the same operator documentation and recursive
+// unions, which multiply the size of the input schema, so only the operator
+// value types are kept
+function convertOperatorObject(
+    schema: any,
+    convert: (schema: any, optional?: boolean) => ZodTypeAny
+): ZodTypeAny {
+    const shape = Object.fromEntries(
+        Object.entries(schema.properties).map(([key, value]) => [
+            key,
+            convert(simplifyOperatorValue(value), true)
+        ])
+    );
+    return z.object(shape).passthrough();
+}
+
+function toUnion(members: ZodTypeAny[]): ZodTypeAny {
+    if (members.length === 0) {
+        return z.any();
+    }
+    if (members.length === 1) {
+        return members[0];
+    }
+    return z.union(members as [ZodTypeAny, ZodTypeAny, ...ZodTypeAny[]]);
+}
+
+/**
+ * Convert a JSON schema (as found in the OpenAPI specs) into a Zod schema.
+ * `$ref`s are resolved against `document`; recursive references fall back to
+ * `z.any()` once a schema is already being converted higher up the tree.
+ * @param prop - the JSON schema node to convert
+ * @param document - the OpenAPI document used to resolve `$ref`s
+ * @param makeOptional - whether the resulting schema should be optional
+ * @param refStack - refs currently being converted, used to break cycles
+ * @return the equivalent Zod schema
+ */
+export function convertSchemaPropertyToZod(
+    prop: any,
+    document: OpenApiDocument,
+    makeOptional = true,
+    refStack: string[] = []
+): ZodTypeAny {
+    if (!prop) {
+        return makeOptional ? z.any().optional() : z.any();
+    }
+
+    // Handle $ref at the property level
+    let resolvedProp = prop;
+    let stack = refStack;
+    if (prop.$ref) {
+        if (refStack.includes(prop.$ref)) {
+            return makeOptional ? z.any().optional() : z.any();
+        }
+        resolvedProp = resolveSchemaRef(prop, document);
+        if (!resolvedProp) {
+            return makeOptional ? z.any().optional() : z.any();
+        }
+        stack = [...refStack, prop.$ref];
+    }
+
+    const convert = (schema: any, optional = false): ZodTypeAny =>
+        convertSchemaPropertyToZod(schema, document, optional, stack);
+
+    // OpenAPI 3.1 allows `type: ["string", "null"]`
+    const types: string[] = Array.isArray(resolvedProp.type)
+        ? resolvedProp.type
+        : [resolvedProp.type];
+    const nonNullTypes = types.filter((t) => t !== "null");
+    const nullable =
+        resolvedProp.nullable === true ||
+        (nonNullTypes.length > 0 && nonNullTypes.length < types.length);
+    const type = nonNullTypes.length === 1 ? nonNullTypes[0] : types[0];
+
+    let zodSchema: ZodTypeAny;
+    if (Array.isArray(resolvedProp.enum)) {
+        zodSchema = convertEnum(resolvedProp.enum);
+    } else if (resolvedProp.const !== undefined) {
+        zodSchema = z.literal(resolvedProp.const);
+    } else if (Array.isArray(resolvedProp.oneOf)) {
+        zodSchema = toUnion(resolvedProp.oneOf.map((s: any) => convert(s)));
+    } else if (Array.isArray(resolvedProp.anyOf)) {
+        zodSchema = toUnion(resolvedProp.anyOf.map((s: any) => convert(s)));
+    } else if (Array.isArray(resolvedProp.allOf)) {
+        const members = resolvedProp.allOf.map((s: any) => convert(s));
+        zodSchema =
+            members.length === 0
+                ? z.any()
+                : members.reduce((acc: ZodTypeAny, member: ZodTypeAny) =>
+                      z.intersection(acc, member)
+                  );
+    } else if (nonNullTypes.length > 1) {
+        zodSchema = toUnion(
+            nonNullTypes.map((t) => convert({ ...resolvedProp, type: t }))
+        );
+    } else {
+        switch (type) {
+            case "string":
+                zodSchema = convertString(resolvedProp);
+                break;
+            case "number":
+                zodSchema = convertNumber(resolvedProp, false);
+                break;
+            case "integer":
+                zodSchema = convertNumber(resolvedProp, true);
+                break;
+            case "boolean":
+                zodSchema = z.boolean();
+                break;
+            case "null":
+                zodSchema = z.null();
+                break;
+            case "array": {
+                // Items are not optional by default
+                let arraySchema = z.array(
+                    resolvedProp.items ? convert(resolvedProp.items) : z.any()
+                );
+                if (typeof resolvedProp.minItems === "number") {
+                    arraySchema = arraySchema.min(resolvedProp.minItems);
+                }
+                if (typeof resolvedProp.maxItems === "number") {
+                    arraySchema = arraySchema.max(resolvedProp.maxItems);
+                }
+                zodSchema = arraySchema;
+                break;
+            }
+            case "object":
+                if (isOperatorObject(resolvedProp)) {
+                    zodSchema = convertOperatorObject(resolvedProp, convert);
+                } else if (resolvedProp.properties) {
+                    // Nested properties are optional unless listed in `required`
+                    const shape = Object.entries(
+                        resolvedProp.properties
+                    ).reduce((acc, [key, value]) => {
+                        const isRequired = resolvedProp.required?.includes(key);
+                        acc[key] = convert(value, !isRequired);
+                        return acc;
+                    }, {} as Record<string, ZodTypeAny>);
+                    const objectSchema = z.object(shape);
+                    zodSchema =
+                        resolvedProp.additionalProperties === false
+                            ? objectSchema.strict()
+                            : objectSchema.passthrough();
+                } else if (
+                    resolvedProp.additionalProperties &&
+                    typeof resolvedProp.additionalProperties === "object"
+                ) {
+                    zodSchema = z.record(
+                        convert(resolvedProp.additionalProperties)
+                    );
+                } else {
+                    zodSchema = z.record(z.any());
+                }
+                break;
+            default:
+                zodSchema = z.any();
+        }
+    }
+
+    if (nullable) {
+        zodSchema = zodSchema.nullable();
+    }
+    if (resolvedProp.description) {
+        zodSchema = zodSchema.describe(resolvedProp.description);
+    }
+    if (resolvedProp.default !== undefined) {
+        return zodSchema.default(resolvedProp.default);
+    }
+
+    return makeOptional ? zodSchema.optional() : zodSchema;
+}
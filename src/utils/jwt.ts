@@ -0,0 +1,19 @@
+/**
+ * Read the `exp` claim of a JWT without verifying it.
+ * @param token - the encoded JWT
+ * @return the expiry as a millisecond timestamp, or undefined if unknown
+ */
+export function getJwtExpiry(token: string): number | undefined {
+    const [, payload] = token.split(".");
+    if (!payload) {
+        return undefined;
+    }
+    try {
+        const claims = JSON.parse(
+            Buffer.from(payload, "base64url").toString("utf8")
+        );
+        return typeof claims.exp === "number" ? claims.exp * 1000 : undefined;
+    } catch {
+        return undefined;
+    }
+}
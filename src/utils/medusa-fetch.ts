@@ -0,0 +1,71 @@
+import { stringify } from "qs";
+import { fromMedusaResponse, ToolError } from "./error";
+
+export type MedusaRequest = {
+    method: string;
+    headers?: Record<string, string>;
+    // Encoded in qs bracket notation, e.g. `id[0]=a&created_at[$gt]=...`
+    query?: Record<string, any>;
+    body?: unknown;
+};
+
+export type MedusaResponse = {
+    status: number;
+    body: any;
+};
+
+/**
+ * Send a JSON request to the Medusa backend. Unlike the SDK client, a failed
+ * response keeps the Medusa error `type` and `code` of its body, and an
+ * unreachable backend is reported as `backend_unavailable`.
+ * @param baseUrl - the Medusa backend URL
+ * @param path - the request path, e.g. `/admin/orders`
+ * @param request - the method, headers, query and body
+ * @return the HTTP status and the parsed response body
+ */
+export async function fetchMedusa(
+    baseUrl: string,
+    path: string,
+    request: MedusaRequest
+): Promise<MedusaResponse> {
+    const url = new URL(
+        `${baseUrl.replace(/\/$/, "")}/${path.replace(/^\//, "")}`
+    );
+    if (request.query) {
+        url.search = stringify(request.query);
+    }
+
+    let response: Response;
+    try {
+        response = await fetch(url, {
+            method: request.method.toUpperCase(),
+            headers: {
+                "Content-Type": "application/json",
+                "Accept": "application/json",
+                ...request.headers
+            },
+            body:
+                request.body === undefined
+                    ? undefined
+                    : JSON.stringify(request.body)
+        });
+    } catch (error) {
+        throw new ToolError(
+            `The Medusa backend at ${url.origin} could not be reached`,
+            "backend_unavailable",
+            { cause: String((error as { cause?: unknown }).cause ?? error) }
+        );
+    }
+
+    const text = await response.text();
+    let body: any;
+    try {
+        body = text ? JSON.parse(text) : undefined;
+    } catch {
+        body = text;
+    }
+    if (response.status >= 300) {
+        throw fromMedusaResponse(response.status, body);
+    }
+    return { status: response.status, body };
+}
@@ -0,0 +1,98 @@
+import { afterEach, beforeAll, describe, expect, it, vi } from "vitest";
+import { z } from "zod";
+import adminJson from "../oas/admin.json";
+import { setAuditSink } from "./audit-log";
+import { generateOpenApiTools } from "./openapi-tools";
+
+const BASE_URL = "http://medusa.test";
+
+function getTool(name: string): any {
+    const tools = generateOpenApiTools({
+        document: adminJson,
+        baseUrl: BASE_URL,
+        namePrefix: "Admin",
+        auth: { getHeaders: () => ({ Authorization: "Bearer test" }) },
+        readOnly: true
+    });
+    const tool = tools.find((candidate) => candidate.name === name);
+    if (!tool) {
+        throw new Error(`No tool named ${name}`);
+    }
+    return tool;
+}
+
+// Validate the input like the MCP server does, call the tool and return the
+// URL it requested
+async function requestUrl(
+    tool: any,
+    input: Record<string, unknown>
+): Promise<URL> {
+    const fetchMock = vi.fn(
+        async () =>
+            new Response(JSON.stringify({ orders: [] }), {
+                status: 200,
+                headers: { "Content-Type": "application/json" }
+            })
+    );
+    vi.stubGlobal("fetch", fetchMock);
+
+    const result = await tool.handler(z.object(tool.inputSchema).parse(input));
+    expect(result.isError).toBeUndefined();
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    return new URL(String((fetchMock.mock.calls[0] as unknown[])[0]));
+}
+
+describe("generated tool query encoding", () => {
+    beforeAll(() => {
+        setAuditSink(undefined);
+    });
+
+    afterEach(() => {
+        vi.unstubAllGlobals();
+    });
+
+    it("encodes arrays and operator objects of AdminGetOrders in qs bracket notation", async () => {
+        const url = await requestUrl(getTool("AdminGetOrders"), {
+            created_at: { $gt: "2024-01-01T00:00:00Z" },
+            id: ["a", "b"]
+        });
+
+        expect(url.pathname).toBe("/admin/orders");
+        expect(decodeURIComponent(url.search)).toBe(
+            "?id[0]=a&id[1]=b&created_at[$gt]=2024-01-01T00:00:00Z"
+        );
+    });
+
+    it("encodes nested `$or` filters", async () => {
+        const url = await requestUrl(getTool("AdminGetOrders"), {
+            $or: [{ status: "pending" }, { status: "completed" }]
+        });
+
+        expect(decodeURIComponent(url.search)).toBe(
+            "?$or[0][status]=pending&$or[1][status]=completed"
+        );
+    });
+
+    it("leaves out query parameters that are not set", async () => {
+        const url = await requestUrl(getTool("AdminGetOrders"), {
+            limit: 10
+        });
+
+        expect(url.search).toBe("?limit=10");
+    });
+});
+
+describe("generated tool input schemas", () => {
+    it("keeps the value types of filter operators", () => {
+        const schema = z.object(getTool("AdminGetOrders").inputSchema);
+
+        expect(
+            schema.safeParse({ created_at: { $gt: "2024-01-01T00:00:00Z" } })
+                .success
+        ).toBe(true);
+        expect(schema.safeParse({ created_at: { $gt: 5 } }).success).toBe(
+            false
+        );
+        expect(schema.safeParse({ id: { $in: "a" } }).success).toBe(false);
+    });
+});
@@ -0,0 +1,455 @@
+import { ZodTypeAny } from "zod";
+import { AuditDetails } from "./audit-log";
+import { CallerCredentials, getCallerCredentials } from "./caller-credentials";
+import { consumeConfirmation, createConfirmation } from "./confirmations";
+import {
+    defineTool,
+    InferToolHandlerInput,
+    ToolHandlerExtra
+} from "./define-tools";
+import {
+    convertSchemaPropertyToZod,
+    OpenApiDocument,
+    resolveSchemaRef
+} from "./json-schema-to-zod";
+import { toToolError, ToolError } from "./error";
+import { fetchMedusa } from "./medusa-fetch";
+import { fetchAllPages, isPaginated, MAX_FETCH_ALL_ITEMS } from "./pagination";
+import { FilterableTool } from "./tool-filter";
+import { formatToolOutput, getOutputDefaults } from "./tool-output";
+
+export type OpenApiParameter = {
+    name: string;
+    in: string;
+    description?: string;
+    required?: boolean;
+    schema?: any;
+};
+
+export type AuthStrategy = {
+    // Headers sent with every request made by a generated tool
+    getHeaders: (
+        caller: CallerCredentials
+    ) => Record<string, string> | Promise<Record<string, string>>;
+    // Called when Medusa answers 401; the request is retried once if it
+    // resolves to true
+    onUnauthorized?: (caller: CallerCredentials) => Promise<boolean>;
+};
+
+export type OpenApiToolOptions = {
+    document: OpenApiDocument;
+    // The Medusa backend URL
+    baseUrl: string;
+    auth: AuthStrategy;
+    namePrefix?: string;
+    descriptionPrefix?: string;
+    // Only generate GET tools and refuse any other method at call time
+    readOnly?: boolean;
+    // Tools that first return a preview and only run once confirmed
+    requiresConfirmation?: (tool: FilterableTool) => boolean;
+};
+
+// MEDUSA_READ_ONLY=true turns read-only mode on for every generated tool
+export function isReadOnlyMode(): boolean {
+    return process.env.MEDUSA_READ_ONLY === "true";
+}
+
+// Merge the members of an `allOf` request body into a single object schema
+// so its properties and required fields become tool inputs
+function flattenBodySchema(schema: any, document: OpenApiDocument): any {
+    const resolved = resolveSchemaRef(schema, document);
+    if (!Array.isArray(resolved?.allOf)) {
+        return resolved;
+    }
+    return resolved.allOf
+        .map((member: any) => flattenBodySchema(member, document))
+        .reduce(
+            (acc: any, member: any) => ({
+                ...acc,
+                properties: { ...acc.properties, ...member?.properties },
+                required: [...acc.required, ...(member?.required ?? [])]
+            }),
+            { type: "object", properties: {}, required: [] }
+        );
+}
+
+/**
+ * Send a request to Medusa with the auth strategy's headers, retrying once
+ * when the strategy renews its credentials after a 401.
+ * @param baseUrl - the Medusa backend URL
+ * @param auth - the auth strategy providing the headers
+ * @param caller - the credentials of the MCP caller
+ * @param path - the resolved request path
+ * @param init - the method, query and body of the request
+ * @return the parsed JSON response
+ */
+export async function sendAuthenticatedRequest(
+    baseUrl: string,
+    auth: AuthStrategy,
+    caller: CallerCredentials,
+    path: string,
+    init: {
+        method: string;
+        query?: Record<string, any>;
+        body?: unknown;
+        // Receives the HTTP status of the response
+        audit?: AuditDetails;
+    }
+): Promise<any> {
+    const send = async (): Promise<any> => {
+        const response = await fetchMedusa(baseUrl, path, {
+            method: init.method,
+            headers: await auth.getHeaders(caller),
+            query: init.query,
+            body: init.body
+        });
+        if (init.audit) {
+            init.audit.http_status = response.status;
+        }
+        return response.body;
+    };
+
+    try {
+        return await send();
+    } catch (error) {
+        if (
+            auth.onUnauthorized &&
+            toToolError(error).details?.status === 401 &&
+            (await auth.onUnauthorized(caller))
+        ) {
+            return await send();
+        }
+        throw error;
+    }
+}
+
+/**
+ * Wrap a single OpenAPI operation into an MCP tool that forwards its input
+ * to the Medusa backend.
+ * @param refPath - the OpenAPI path, e.g. `/admin/products/{id}`
+ * @param method - the HTTP method of the operation
+ * @param operation - the OpenAPI operation object
+ * @param options - the document, backend URL and auth strategy to build the tool with
+ * @return the tool definition
+ */
+export function wrapOperation(
+    refPath: string,
+    method: string,
+    operation: any,
+    options: OpenApiToolOptions
+): ReturnType<typeof defineTool> {
+    const { document, baseUrl, auth } = options;
+    const toolName = `${options.namePrefix ?? ""}${operation.operationId}`;
+    const tags: string[] = operation.tags ?? [];
+    const paginated =
+        method === "get" && isPaginated(operation.parameters ?? []);
+    const filterable: FilterableTool = {
+        name: toolName,
+        method: method.toUpperCase(),
+        tags
+    };
+    const requiresConfirmation =
+        options.requiresConfirmation?.(filterable) ?? false;
+    const outputDefaults = getOutputDefaults(filterable);
+
+    return defineTool((z) => {
+        const name: string | undefined = operation.operationId;
+        const description: string = operation.description;
+        const parameters: OpenApiParameter[] = operation.parameters ?? [];
+        let requestBodySchema: any = null;
+
+        // Extract request body schema
+        if (operation.requestBody?.content?.["application/json"]?.schema) {
+            const schema =
+                operation.requestBody.content["application/json"].schema;
+            // Resolve $ref and allOf if present
+            requestBodySchema = flattenBodySchema(schema, document);
+        }
+        if (!name) {
+            throw new Error(`No name found for ${method} ${refPath}`);
+        }
+
+        // Build input schema from parameters; path parameters are always
+        // required, query parameters only when the spec says so
+        const parameterSchema = parameters
+            .filter((p) => p.in != "header")
+            .reduce((acc, param) => {
+                const isRequired = param.in === "path" || param.required;
+                acc[param.name] = convertSchemaPropertyToZod(
+                    param.schema,
+                    document,
+                    !isRequired
+                );
+                return acc;
+            }, {} as Record<string, ZodTypeAny>);
+
+        // Build input schema from request body
+        let bodySchema = {};
+        if (requestBodySchema?.properties) {
+            const requiredFields: string[] = requestBodySchema.required ?? [];
+            bodySchema = Object.entries(requestBodySchema.properties).reduce(
+                (acc, [key, value]) => {
+                    acc[key] = convertSchemaPropertyToZod(
+                        value,
+                        document,
+                        !requiredFields.includes(key)
+                    );
+                    return acc;
+                },
+                {} as Record<string, ZodTypeAny>
+            );
+        }
+
+        const confirmationSchema: Record<string, ZodTypeAny> =
+            requiresConfirmation
+                ? {
+                      confirmation_token: z
+                          .string()
+                          .optional()
+                          .describe(
+                              "Token from this tool's preview. Call the tool without it first to review the request, then again with the same input and the token to run it."
+                          )
+                  }
+                : {};
+
+        const paginationSchema: Record<string, ZodTypeAny> = paginated
+            ? {
+                  fetch_all: z
+                      .boolean()
+                      .optional()
+                      .describe(
+                          `Page through the whole list and return all records, up to ${MAX_FETCH_ALL_ITEMS}. \`limit\` sets the page size.`
+                      ),
+                  max_items: z
+                      .number()
+                      .int()
+                      .min(1)
+                      .max(MAX_FETCH_ALL_ITEMS)
+                      .optional()
+                      .describe(
+                          "Page through the list until this many records are collected"
+                      )
+              }
+            : {};
+
+        const outputSchema: Record<string, ZodTypeAny> = {
+            output_fields: z
+                .array(z.string())
+                .optional()
+                .describe(
+                    "Only return these fields of the response, as dot paths such as `orders.id` or `order.items.title`"
+                ),
+            max_chars: z
+                .number()
+                .int()
+                .min(200)
+                .optional()
+                .describe(
+                    `Character budget for the response, longer responses are truncated${
+                        outputDefaults.maxChars
+                            ? ` (default ${outputDefaults.maxChars})`
+                            : ""
+                    }`
+                ),
+            compact: z
+                .boolean()
+                .optional()
+                .describe(
+                    `Return JSON without indentation${
+                        outputDefaults.compact ? " (default true)" : ""
+                    }`
+                )
+        };
+
+        return {
+            name: toolName,
+            description: options.descriptionPrefix
+                ? `${options.descriptionPrefix} ${description}`
+                : description,
+            inputSchema: {
+                ...parameterSchema,
+                ...bodySchema,
+                ...paginationSchema,
+                ...outputSchema,
+                ...confirmationSchema
+            },
+            method: method.toUpperCase(),
+            path: refPath,
+            tags,
+            annotations: {
+                readOnlyHint: method === "get",
+                destructiveHint: method === "delete"
+            },
+            formatResult: (result: any, input: Record<string, any>): string =>
+                formatToolOutput(result, {
+                    fields: input.output_fields ?? outputDefaults.fields,
+                    maxChars: input.max_chars ?? outputDefaults.maxChars,
+                    compact: input.compact ?? outputDefaults.compact
+                }),
+
+            handler: async (
+                input: InferToolHandlerInput<any, ZodTypeAny>,
+                extra?: ToolHandlerExtra,
+                audit?: AuditDetails
+            ): Promise<any> => {
+                // Guards against tools registered outside the generator's filter
+                if (options.readOnly && method !== "get") {
+                    throw new ToolError(
+                        `Read-only mode: ${method.toUpperCase()} ${refPath} is not allowed`,
+                        "not_allowed",
+                        {
+                            hint: "The server is in read-only mode. Only GET tools can be used."
+                        }
+                    );
+                }
+
+                const caller = getCallerCredentials(
+                    extra?.requestInfo?.headers,
+                    extra?.sessionId
+                );
+
+                // Separate path/query parameters from body parameters
+                const bodyPropertyNames = requestBodySchema?.properties
+                    ? new Set(Object.keys(requestBodySchema.properties))
+                    : new Set();
+
+                const queryParams: Record<string, any> = {};
+                const pathParams: Record<string, any> = {};
+                const bodyParams: Record<string, any> = {};
+
+                Object.entries(input).forEach(([key, value]) => {
+                    const param = parameters.find((p) => p.name === key);
+                    if (param) {
+                        if (param.in === "path") {
+                            pathParams[key] = value;
+                        } else if (param.in === "query") {
+                            queryParams[key] = value;
+                        }
+                    } else if (bodyPropertyNames.has(key)) {
+                        bodyParams[key] = value;
+                    }
+                });
+
+                // Replace path parameters in refPath
+                let finalPath = refPath;
+                Object.entries(pathParams).forEach(([key, value]) => {
+                    if (value !== undefined && value !== null && value !== "") {
+                        finalPath = finalPath.replace(
+                            `{${key}}`,
+                            encodeURIComponent(String(value))
+                        );
+                    }
+                });
+                const unresolved = finalPath.match(/\{[^}]+\}/g);
+                if (unresolved) {
+                    throw new ToolError(
+                        `Missing path parameters: ${unresolved
+                            .map((placeholder) => placeholder.slice(1, -1))
+                            .join(", ")}`,
+                        "invalid_data",
+                        {
+                            hint: `Provide a value for every placeholder in ${refPath}.`
+                        }
+                    );
+                }
+
+                if (audit) {
+                    audit.method = method.toUpperCase();
+                    audit.path = finalPath;
+                }
+
+                const request = async (
+                    requestMethod: string,
+                    query = queryParams
+                ): Promise<any> =>
+                    sendAuthenticatedRequest(baseUrl, auth, caller, finalPath, {
+                        method: requestMethod,
+                        query,
+                        body: requestMethod === "get" ? undefined : bodyParams,
+                        audit
+                    });
+
+                if (requiresConfirmation) {
+                    const fingerprint = JSON.stringify([
+                        toolName,
+                        finalPath,
+                        queryParams,
+                        bodyParams,
+                        caller.sessionId
+                    ]);
+                    const token = input.confirmation_token;
+                    if (token) {
+                        if (!consumeConfirmation(token, fingerprint)) {
+                            throw new ToolError(
+                                "Invalid or expired confirmation token",
+                                "invalid_confirmation"
+                            );
+                        }
+                    } else {
+                        const preview: Record<string, any> = {
+                            confirmation_required: true,
+                            method: method.toUpperCase(),
+                            path: finalPath,
+                            query: queryParams,
+                            body: method === "get" ? undefined : bodyParams
+                        };
+                        // Show what a delete would remove
+                        if (
+                            method === "delete" &&
+                            document.paths?.[refPath]?.get
+                        ) {
+                            try {
+                                preview.current_state = await request("get");
+                            } catch (error) {
+                                preview.current_state_error =
+                                    error instanceof Error
+                                        ? error.message
+                                        : String(error);
+                            }
+                        }
+                        if (audit) {
+                            audit.preview = true;
+                        }
+                        const confirmation = createConfirmation(fingerprint);
+                        preview.confirmation_token = confirmation.token;
+                        preview.expires_at = confirmation.expiresAt;
+                        return preview;
+                    }
+                }
+
+                if (paginated && (input.fetch_all || input.max_items)) {
+                    return await fetchAllPages(
+                        (query) => request(method, query),
+                        queryParams,
+                        input
+                    );
+                }
+
+                return await request(method);
+            }
+        };
+    });
+}
+
+/**
+ * Generate one MCP tool per operation declared in an OpenAPI document.
+ * @param options - the document, backend URL, auth strategy and naming options
+ * @return the tool definitions
+ */
+export function generateOpenApiTools(
+    options: OpenApiToolOptions
+): ReturnType<typeof defineTool>[] {
+    const readOnly = options.readOnly ?? isReadOnlyMode();
+    const paths = Object.entries(options.document.paths ?? {});
+    // Every HTTP method declared on a path becomes its own tool
+    return paths.flatMap(([path, refFunction]) =>
+        Object.entries(refFunction as Record<string, any>)
+            .filter(([method]) => !readOnly || method === "get")
+            .map(([method, operation]) =>
+                wrapOperation(path, method, operation, {
+                    ...options,
+                    readOnly
+                })
+            )
+    );
+}
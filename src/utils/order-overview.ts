@@ -0,0 +1,387 @@
+import { ToolError } from "./error";
+
+// Sends a GET to an admin route and resolves with the parsed response
+export type AdminGet = (
+    path: string,
+    query?: Record<string, any>
+) => Promise<any>;
+
+export type TimelineEvent = {
+    at: string;
+    event: string;
+    id?: string;
+};
+
+// Relations added to the default order fields. Without the `+` Medusa would
+// replace the defaults and drop the order's own fields such as its status.
+const ORDER_FIELDS = [
+    "+items.*",
+    "+items.detail.*",
+    "+customer.*",
+    "+shipping_address.*",
+    "+shipping_methods.*",
+    "+fulfillments.*",
+    "+fulfillments.labels.*",
+    "+payment_collections.*",
+    "+payment_collections.payments.*",
+    "+payment_collections.payments.refunds.*"
+].join(",");
+
+function pick<T extends Record<string, any>>(
+    record: T | undefined,
+    keys: string[]
+): Partial<T> | undefined {
+    if (!record) {
+        return undefined;
+    }
+    return Object.fromEntries(
+        keys
+            .filter((key) => record[key] !== undefined)
+            .map((key) => [key, record[key]])
+    ) as Partial<T>;
+}
+
+/**
+ * Find the ID of an order from its display ID, e.g. `1042`.
+ * @param get - sends admin GET requests
+ * @param displayId - the order number shown to customers
+ * @return the order ID
+ */
+export async function findOrderIdByDisplayId(
+    get: AdminGet,
+    displayId: number
+): Promise<string> {
+    const { orders = [] } = await get("/admin/orders", {
+        q: String(displayId),
+        fields: "id,display_id",
+        limit: 50
+    });
+    const order = orders.find(
+        (candidate: any) => Number(candidate.display_id) === displayId
+    );
+    if (!order) {
+        throw new ToolError(
+            `No order with display ID ${displayId}`,
+            "not_found",
+            {
+                status: 404
+            }
+        );
+    }
+    return order.id;
+}
+
+function buildTimeline(overview: Record<string, any>): TimelineEvent[] {
+    const events: TimelineEvent[] = [];
+    const add = (at: unknown, event: string, id?: string): void => {
+        if (typeof at === "string" && at) {
+            events.push({ at, event, id });
+        }
+    };
+
+    const { order } = overview;
+    add(order.created_at, "order placed", order.id);
+    add(order.canceled_at, "order canceled", order.id);
+
+    overview.payment.collections.forEach((collection: any) => {
+        (collection.payments ?? []).forEach((payment: any) => {
+            add(payment.created_at, "payment authorized", payment.id);
+            add(payment.captured_at, "payment captured", payment.id);
+            add(payment.canceled_at, "payment canceled", payment.id);
+            (payment.refunds ?? []).forEach((refund: any) =>
+                add(refund.created_at, `refunded ${refund.amount}`, refund.id)
+            );
+        });
+    });
+
+    overview.fulfillment.fulfillments.forEach((fulfillment: any) => {
+        add(fulfillment.created_at, "fulfillment created", fulfillment.id);
+        add(fulfillment.packed_at, "fulfillment packed", fulfillment.id);
+        add(fulfillment.shipped_at, "fulfillment shipped", fulfillment.id);
+        add(fulfillment.delivered_at, "fulfillment delivered", fulfillment.id);
+        add(fulfillment.canceled_at, "fulfillment canceled", fulfillment.id);
+    });
+
+    overview.changes.forEach((change: any) => {
+        const type = change.change_type ?? "change";
+        add(change.requested_at, `${type} requested`, change.id);
+        add(change.confirmed_at, `${type} confirmed`, change.id);
+        add(change.declined_at, `${type} declined`, change.id);
+        add(change.canceled_at, `${type} canceled`, change.id);
+    });
+
+    overview.returns.forEach((orderReturn: any) => {
+        add(orderReturn.received_at, "return received", orderReturn.id);
+    });
+
+    return events.sort((a, b) => a.at.localeCompare(b.at));
+}
+
+/**
+ * Gather everything known about an order from the admin routes: the order
+ * with its items, payments and fulfillments, its changes, returns, claims
+ * and exchanges, and a chronological timeline. Sections that fail to load
+ * are reported under `errors` instead of failing the whole overview.
+ * @param get - sends admin GET requests with the caller's credentials
+ * @param orderId - the order ID
+ * @return the consolidated order view
+ */
+export async function buildOrderOverview(
+    get: AdminGet,
+    orderId: string
+): Promise<Record<string, any>> {
+    const id = encodeURIComponent(orderId);
+    const { order } = await get(`/admin/orders/${id}`, {
+        fields: ORDER_FIELDS
+    });
+
+    const errors: { section: string; message: string }[] = [];
+    const load = async <T>(
+        section: string,
+        request: () => Promise<T>,
+        fallback: T
+    ): Promise<T> => {
+        try {
+            return await request();
+        } catch (error) {
+            errors.push({
+                section,
+                message: error instanceof Error ? error.message : String(error)
+            });
+            return fallback;
+        }
+    };
+
+    const [changes, claims, exchanges] = await Promise.all([
+        load(
+            "changes",
+            async () =>
+                (await get(`/admin/orders/${id}/changes`)).order_changes ?? [],
+            [] as any[]
+        ),
+        load(
+            "claims",
+            async () =>
+                (await get("/admin/claims", { order_id: orderId })).claims ??
+                [],
+            [] as any[]
+        ),
+        load(
+            "exchanges",
+            async () =>
+                (
+                    await get("/admin/exchanges", { order_id: orderId })
+                ).exchanges ?? [],
+            [] as any[]
+        )
+    ]);
+
+    // The returns route cannot filter by order, so follow the order changes
+    const returnIds = [
+        ...new Set(
+            changes
+                .map((change: any) => change.return_id)
+                .filter((returnId: unknown) => typeof returnId === "string")
+        )
+    ] as string[];
+    const returns = (
+        await Promise.all(
+            returnIds.map((returnId) =>
+                load(
+                    `returns/${returnId}`,
+                    async () =>
+                        (
+                            await get(
+                                `/admin/returns/${encodeURIComponent(returnId)}`
+                            )
+                        ).return,
+                    undefined
+                )
+            )
+        )
+    ).filter(Boolean);
+
+    const overview: Record<string, any> = {
+        order: {
+            ...pick(order, [
+                "id",
+                "display_id",
+                "status",
+                "email",
+                "currency_code",
+                "region_id",
+                "sales_channel_id",
+                "created_at",
+                "updated_at",
+                "canceled_at"
+            ]),
+            customer: pick(order.customer, [
+                "id",
+                "email",
+                "first_name",
+                "last_name",
+                "phone"
+            ]),
+            shipping_address: order.shipping_address,
+            totals: pick(order, [
+                "total",
+                "subtotal",
+                "tax_total",
+                "discount_total",
+                "shipping_total",
+                "gift_card_total"
+            ]),
+            summary: order.summary
+        },
+        items: (order.items ?? []).map((item: any) => ({
+            ...pick(item, [
+                "id",
+                "title",
+                "variant_sku",
+                "variant_title",
+                "quantity",
+                "unit_price",
+                "total"
+            ]),
+            ...pick(item.detail, [
+                "fulfilled_quantity",
+                "shipped_quantity",
+                "delivered_quantity",
+                "return_requested_quantity",
+                "return_received_quantity",
+                "return_dismissed_quantity",
+                "written_off_quantity"
+            ])
+        })),
+        payment: {
+            status: order.payment_status,
+            collections: (order.payment_collections ?? []).map(
+                (collection: any) => ({
+                    ...pick(collection, [
+                        "id",
+                        "status",
+                        "amount",
+                        "authorized_amount",
+                        "captured_amount",
+                        "refunded_amount"
+                    ]),
+                    payments: (collection.payments ?? []).map(
+                        (payment: any) => ({
+                            ...pick(payment, [
+                                "id",
+                                "amount",
+                                "provider_id",
+                                "created_at",
+                                "captured_at",
+                                "canceled_at"
+                            ]),
+                            refunds: (payment.refunds ?? []).map(
+                                (refund: any) =>
+                                    pick(refund, [
+                                        "id",
+                                        "amount",
+                                        "note",
+                                        "created_at"
+                                    ])
+                            )
+                        })
+                    )
+                })
+            )
+        },
+        fulfillment: {
+            status: order.fulfillment_status,
+            shipping_methods: (order.shipping_methods ?? []).map(
+                (method: any) => pick(method, ["id", "name", "amount"])
+            ),
+            fulfillments: (order.fulfillments ?? []).map(
+                (fulfillment: any) => ({
+                    ...pick(fulfillment, [
+                        "id",
+                        "location_id",
+                        "provider_id",
+                        "created_at",
+                        "packed_at",
+                        "shipped_at",
+                        "delivered_at",
+                        "canceled_at"
+                    ]),
+                    labels: (fulfillment.labels ?? []).map((label: any) =>
+                        pick(label, ["tracking_number", "tracking_url"])
+                    )
+                })
+            )
+        },
+        returns: returns.map((orderReturn: any) =>
+            pick(orderReturn, [
+                "id",
+                "display_id",
+                "status",
+                "refund_amount",
+                "items",
+                "created_at",
+                "received_at",
+                "canceled_at"
+            ])
+        ),
+        claims: claims.map((claim: any) =>
+            pick(claim, [
+                "id",
+                "display_id",
+                "type",
+                "refund_amount",
+                "claim_items",
+                "additional_items",
+                "return_id",
+                "created_at",
+                "canceled_at"
+            ])
+        ),
+        exchanges: exchanges.map((exchange: any) =>
+            pick(exchange, [
+                "id",
+                "display_id",
+                "difference_due",
+                "return_items",
+                "additional_items",
+                "return_id",
+                "created_at",
+                "canceled_at"
+            ])
+        ),
+        order_edits: changes
+            .filter((change: any) => change.change_type === "edit")
+            .map((change: any) =>
+                pick(change, [
+                    "id",
+                    "status",
+                    "actions",
+                    "requested_at",
+                    "confirmed_at",
+                    "declined_at",
+                    "declined_reason",
+                    "canceled_at"
+                ])
+            ),
+        changes: changes.map((change: any) =>
+            pick(change, [
+                "id",
+                "change_type",
+                "status",
+                "return_id",
+                "claim_id",
+                "exchange_id",
+                "requested_at",
+                "confirmed_at",
+                "declined_at",
+                "canceled_at",
+                "created_at"
+            ])
+        )
+    };
+    overview.timeline = buildTimeline(overview);
+    if (errors.length > 0) {
+        overview.errors = errors;
+    }
+    return overview;
+}
@@ -0,0 +1,87 @@
+import { OpenApiParameter } from "./openapi-tools";
+
+// Hard cap on the records a single fetch_all call collects
+export const MAX_FETCH_ALL_ITEMS = 1000;
+const DEFAULT_PAGE_SIZE = 100;
+
+export type PaginationInput = {
+    fetch_all?: boolean;
+    max_items?: number;
+};
+
+// List endpoints page with `limit`/`offset` and answer with a `count`
+export function isPaginated(parameters: OpenApiParameter[]): boolean {
+    const queryNames = parameters
+        .filter((param) => param.in === "query")
+        .map((param) => param.name);
+    return queryNames.includes("limit") && queryNames.includes("offset");
+}
+
+// The records of a list response live under its only array property,
+// e.g. `products` or `orders`
+function findListKey(page: Record<string, any>): string | undefined {
+    return Object.keys(page).find((key) => Array.isArray(page[key]));
+}
+
+/**
+ * Walk `offset` through a list endpoint until `count` records were read or
+ * the item cap is reached, and merge the pages into one response.
+ * @param fetchPage - requests one page with the given query
+ * @param query - the query of the tool call, including `limit` and `offset`
+ * @param input - the pagination options of the tool call
+ * @return the first page with the merged records and paging metadata
+ */
+export async function fetchAllPages(
+    fetchPage: (query: Record<string, any>) => Promise<any>,
+    query: Record<string, any>,
+    input: PaginationInput
+): Promise<Record<string, any>> {
+    const maxItems = Math.min(
+        input.max_items ?? MAX_FETCH_ALL_ITEMS,
+        MAX_FETCH_ALL_ITEMS
+    );
+    const pageSize = Number(query.limit ?? DEFAULT_PAGE_SIZE);
+    const startOffset = Number(query.offset ?? 0);
+
+    let first: Record<string, any> | undefined;
+    let listKey: string | undefined;
+    const items: unknown[] = [];
+    let offset = startOffset;
+    let count = 0;
+    let pages = 0;
+
+    while (items.length < maxItems) {
+        const page = await fetchPage({
+            ...query,
+            limit: Math.min(pageSize, maxItems - items.length),
+            offset
+        });
+        pages++;
+        first ??= page;
+        listKey ??= findListKey(page);
+        const records: unknown[] = listKey ? page[listKey] ?? [] : [];
+        items.push(...records);
+        offset += records.length;
+        count = Number(page.count ?? offset);
+        if (records.length === 0 || offset >= count) {
+            break;
+        }
+    }
+
+    if (!first || !listKey) {
+        return first ?? {};
+    }
+    return {
+        ...first,
+        [listKey]: items,
+        offset: startOffset,
+        limit: items.length,
+        pagination: {
+            pages,
+            fetched: items.length,
+            count,
+            next_offset: offset < count ? offset : undefined,
+            has_more: offset < count
+        }
+    };
+}
@@ -0,0 +1,82 @@
+import { readdirSync, readFileSync } from "node:fs";
+import path from "node:path";
+
+export type PromptArgument = {
+    name: string;
+    description?: string;
+    required?: boolean;
+    // Completer suggesting values, e.g. `region_id` or
+    // `AdminOrder.fulfillment_status`; defaults to the argument name
+    completion?: string;
+};
+
+export type PromptDefinition = {
+    name: string;
+    description?: string;
+    arguments?: PromptArgument[];
+    // `{argument}` placeholders are replaced with the prompt arguments; an
+    // array is joined with newlines
+    template: string | string[];
+};
+
+// MCP_PROMPTS_DIR points at a directory of *.json prompt files
+export function getPromptsDir(): string {
+    return process.env.MCP_PROMPTS_DIR ?? "prompts";
+}
+
+function isPromptDefinition(value: any): value is PromptDefinition {
+    return (
+        typeof value?.name === "string" &&
+        (typeof value.template === "string" || Array.isArray(value.template))
+    );
+}
+
+/**
+ * Load every `*.json` prompt file of a directory. Files that cannot be
+ * parsed are skipped with an error, so one broken prompt does not keep the
+ * server from starting.
+ * @param dir - the prompts directory
+ * @return the prompt definitions, sorted by file name
+ */
+export function loadPrompts(dir = getPromptsDir()): PromptDefinition[] {
+    let files: string[];
+    try {
+        files = readdirSync(dir)
+            .filter((file) => file.endsWith(".json"))
+            .sort();
+    } catch (error) {
+        console.error(`Error reading prompts directory ${dir}:`, error);
+        return [];
+    }
+
+    return files.flatMap((file) => {
+        const filePath = path.join(dir, file);
+        try {
+            const prompt = JSON.parse(readFileSync(filePath, "utf8"));
+            if (!isPromptDefinition(prompt)) {
+                throw new Error("expected a name and a template");
+            }
+            return [prompt];
+        } catch (error) {
+            console.error(`Error loading prompt ${filePath}:`, error);
+            return [];
+        }
+    });
+}
+
+// Placeholders that are not declared arguments are left untouched
+export function renderPrompt(
+    prompt: PromptDefinition,
+    args: Record<string, string | undefined>
+): string {
+    const template = Array.isArray(prompt.template)
+        ? prompt.template.join("\n")
+        : prompt.template;
+    const names = new Set((prompt.arguments ?? []).map((arg) => arg.name));
+    return template.replace(/\{(\w+)\}/g, (placeholder, name) => {
+        if (!names.has(name)) {
+            return placeholder;
+        }
+        return args[name] ? String(args[name]) : "(not provided)";
+    });
+}
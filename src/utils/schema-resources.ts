@@ -0,0 +1,82 @@
+import { defineResource, RegisterableResource } from "./define-resources";
+import { OpenApiDocument } from "./json-schema-to-zod";
+
+const SCHEMA_REF_PREFIX = "#/components/schemas/";
+
+export function getSchemaUri(namespace: string, name: string): string {
+    return `medusa://schema/${namespace}/${name}`;
+}
+
+// Point `$ref`s at the schema resources so a client can follow them
+function linkSchemaRefs(value: unknown, namespace: string): unknown {
+    if (Array.isArray(value)) {
+        return value.map((item) => linkSchemaRefs(item, namespace));
+    }
+    if (!value || typeof value !== "object") {
+        return value;
+    }
+    return Object.fromEntries(
+        Object.entries(value).map(([key, nested]) => [
+            key,
+            key === "$ref" &&
+            typeof nested === "string" &&
+            nested.startsWith(SCHEMA_REF_PREFIX)
+                ? getSchemaUri(
+                      namespace,
+                      nested.slice(SCHEMA_REF_PREFIX.length)
+                  )
+                : linkSchemaRefs(nested, namespace)
+        ])
+    );
+}
+
+/**
+ * Serve every component schema of an OpenAPI document as a resource under
+ * `medusa://schema/<namespace>/<name>`.
+ * @param api - the API the document describes, `admin` or `store`
+ * @param document - the OpenAPI document
+ * @param namespace - keeps the resources of several services apart, e.g.
+ * `store-eu`; defaults to the API
+ * @return the schema resource template
+ */
+export function defineSchemaResources(
+    api: string,
+    document: OpenApiDocument,
+    namespace = api
+): RegisterableResource {
+    const schemas = document.components?.schemas ?? {};
+    const names = Object.keys(schemas).sort();
+    const example =
+        names.find((name) => name.toLowerCase().startsWith(api)) ??
+        names[0] ??
+        "Name";
+
+    return defineResource({
+        name: `${namespace}-schemas`,
+        uriTemplate: getSchemaUri(namespace, "{name}"),
+        description: `JSON schemas of the Medusa ${api} API request and response bodies, e.g. ${getSchemaUri(
+            namespace,
+            example
+        )}. Use them to look up field names for \`fields\` or body payloads.`,
+        list: async () =>
+            names.map((name) => ({
+                uri: getSchemaUri(namespace, name),
+                name,
+                description: schemas[name].description,
+                mimeType: "application/json"
+            })),
+        complete: {
+            name: async (value) =>
+                names.filter((name) =>
+                    name.toLowerCase().startsWith(value.toLowerCase())
+                )
+        },
+        read: async ({ name }) => {
+            const schema = schemas[name];
+            if (!schema) {
+                throw new Error(`Unknown ${api} schema "${name}"`);
+            }
+            return linkSchemaRefs(schema, namespace);
+        }
+    });
+}
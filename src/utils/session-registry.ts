@@ -0,0 +1,83 @@
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { StreamableHTTPServerTransport } from "@modelcontextprotocol/sdk/server/streamableHttp.js";
+import { clearSessionState } from "./session-state";
+
+type SessionEntry = {
+    transport: StreamableHTTPServerTransport;
+    server: McpServer;
+    profile: string;
+    lastActivity: number;
+};
+
+/**
+ * Keeps the transport and server of every open Streamable HTTP session and
+ * closes sessions that stay idle longer than the configured TTL.
+ */
+export class SessionRegistry {
+    private sessions = new Map<string, SessionEntry>();
+    private sweepTimer?: NodeJS.Timeout;
+
+    constructor(private idleTtlMs: number) {}
+
+    add(
+        sessionId: string,
+        transport: StreamableHTTPServerTransport,
+        server: McpServer,
+        profile: string
+    ): void {
+        this.sessions.set(sessionId, {
+            transport,
+            server,
+            profile,
+            lastActivity: Date.now()
+        });
+    }
+
+    // Look up a session and mark it as active
+    touch(sessionId: string): StreamableHTTPServerTransport | undefined {
+        const entry = this.sessions.get(sessionId);
+        if (!entry) {
+            return undefined;
+        }
+        entry.lastActivity = Date.now();
+        return entry.transport;
+    }
+
+    getProfile(sessionId: string): string | undefined {
+        return this.sessions.get(sessionId)?.profile;
+    }
+
+    async remove(sessionId: string): Promise<void> {
+        const entry = this.sessions.get(sessionId);
+        if (!entry) {
+            return;
+        }
+        this.sessions.delete(sessionId);
+        clearSessionState(sessionId);
+        await entry.server.close();
+    }
+
+    get size(): number {
+        return this.sessions.size;
+    }
+
+    startSweeping(intervalMs = 60 * 1000): void {
+        this.sweepTimer = setInterval(() => {
+            const now = Date.now();
+            for (const [sessionId, entry] of this.sessions) {
+                if (now - entry.lastActivity > this.idleTtlMs) {
+                    console.error(`Closing idle MCP session ${sessionId}`);
+                    this.remove(sessionId).catch((error) =>
+                        console.error("Error closing MCP session:", error)
+                    );
+                }
+            }
+        }, intervalMs);
+        // The sweeper alone must not keep the process alive
+        this.sweepTimer.unref();
+    }
+
+    stopSweeping(): void {
+        clearInterval(this.sweepTimer);
+    }
+}
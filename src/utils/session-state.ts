@@ -0,0 +1,19 @@
+// State kept for the lifetime of an MCP session, keyed by its session id
+export type SessionState = {
+    customerToken?: string;
+};
+
+const sessions = new Map<string, SessionState>();
+
+export function getSessionState(sessionId: string): SessionState {
+    let state = sessions.get(sessionId);
+    if (!state) {
+        state = {};
+        sessions.set(sessionId, state);
+    }
+    return state;
+}
+
+export function clearSessionState(sessionId: string): void {
+    sessions.delete(sessionId);
+}
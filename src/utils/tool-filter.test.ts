@@ -0,0 +1,91 @@
+import { describe, expect, it } from "vitest";
+import { decideTool, filterTools } from "./tool-filter";
+
+const deleteOrder = {
+    name: "AdminDeleteOrdersId",
+    method: "DELETE",
+    tags: ["Orders"]
+};
+const getOrders = { name: "AdminGetOrders", method: "GET", tags: ["Orders"] };
+const getProducts = {
+    name: "AdminGetProducts",
+    method: "GET",
+    tags: ["Products"]
+};
+
+describe("decideTool", () => {
+    it("allows every tool without any allow entry", () => {
+        expect(decideTool(deleteOrder, {}).allowed).toBe(true);
+    });
+
+    it("lets deny rules win over allowedTools, allow rules and allowAllTools", () => {
+        const decision = decideTool(deleteOrder, {
+            allowAllTools: true,
+            allowedTools: ["Admin*"],
+            rules: [
+                { effect: "allow", tags: ["Orders"] },
+                { effect: "deny", methods: ["delete"] }
+            ]
+        });
+
+        expect(decision.allowed).toBe(false);
+        expect(decision.reason).toBe('rules[1] deny {"methods":["delete"]}');
+    });
+
+    it("admits tools matching an allowedTools glob or an allow rule only", () => {
+        const config = {
+            allowedTools: ["AdminGetProduct*"],
+            rules: [
+                {
+                    effect: "allow" as const,
+                    tags: ["orders"],
+                    methods: ["GET"]
+                }
+            ]
+        };
+
+        expect(decideTool(getProducts, config)).toEqual({
+            name: "AdminGetProducts",
+            allowed: true,
+            reason: 'allowedTools "AdminGetProduct*"'
+        });
+        expect(decideTool(getOrders, config).allowed).toBe(true);
+        expect(decideTool(deleteOrder, config)).toEqual({
+            name: "AdminDeleteOrdersId",
+            allowed: false,
+            reason: "no allow rule matched"
+        });
+    });
+
+    it("requires every criterion of a rule to match", () => {
+        const config = {
+            rules: [
+                {
+                    effect: "deny" as const,
+                    name: "Admin*",
+                    tags: ["Orders"],
+                    methods: ["DELETE"]
+                }
+            ]
+        };
+
+        expect(decideTool(deleteOrder, config).allowed).toBe(false);
+        expect(decideTool(getOrders, config).allowed).toBe(true);
+    });
+});
+
+describe("filterTools", () => {
+    it("returns the admitted tools with a decision for every tool", () => {
+        const { tools, decisions } = filterTools(
+            [deleteOrder, getOrders, getProducts],
+            { allowedTools: ["AdminGetOrders"] }
+        );
+
+        expect(tools).toEqual([getOrders]);
+        expect(decisions.map((decision) => decision.allowed)).toEqual([
+            false,
+            true,
+            false
+        ]);
+    });
+});
@@ -0,0 +1,155 @@
+export type ToolMatcher = {
+    // Glob(s) on the tool name, `*` matches any run of characters
+    name?: string | string[];
+    // OpenAPI tags, e.g. "Orders" or "Inventory Items"
+    tags?: string[];
+    // HTTP methods, e.g. "GET" or "DELETE"
+    methods?: string[];
+};
+
+export type ToolRule = ToolMatcher & {
+    effect: "allow" | "deny";
+};
+
+export type ToolFilterConfig = {
+    allowAllTools?: boolean;
+    // Exact names or globs of tools to allow
+    allowedTools?: string[];
+    rules?: ToolRule[];
+};
+
+export type FilterableTool = {
+    name: string;
+    method?: string;
+    tags?: string[];
+};
+
+export type ToolDecision = {
+    name: string;
+    allowed: boolean;
+    reason: string;
+};
+
+function globToRegExp(glob: string): RegExp {
+    const pattern = glob
+        .split("*")
+        .map((part) =>
+            part.replace(/[.+^${}()|[\]\\]/g, "\\$&").replace(/\?/g, ".")
+        )
+        .join(".*");
+    return new RegExp(`^${pattern}$`);
+}
+
+export function matchesGlob(name: string, glob: string): boolean {
+    return globToRegExp(glob).test(name);
+}
+
+export function matchesTool(
+    tool: FilterableTool,
+    matcher: ToolMatcher
+): boolean {
+    if (matcher.name !== undefined) {
+        const globs = Array.isArray(matcher.name)
+            ? matcher.name
+            : [matcher.name];
+        if (!globs.some((glob) => matchesGlob(tool.name, glob))) {
+            return false;
+        }
+    }
+    if (matcher.tags !== undefined) {
+        const toolTags = (tool.tags ?? []).map((tag) => tag.toLowerCase());
+        if (!matcher.tags.some((tag) => toolTags.includes(tag.toLowerCase()))) {
+            return false;
+        }
+    }
+    if (matcher.methods !== undefined) {
+        const method = tool.method?.toUpperCase();
+        if (
+            !method ||
+            !matcher.methods.some((m) => m.toUpperCase() === method)
+        ) {
+            return false;
+        }
+    }
+    return true;
+}
+
+function describeRule(rule: ToolRule, index: number): string {
+    const { effect, ...matcher } = rule;
+    return `rules[${index}] ${effect} ${JSON.stringify(matcher)}`;
+}
+
+/**
+ * Decide for a single tool whether the filter config admits it. Deny rules
+ * win over allow rules; without any allow rule every tool is allowed.
+ * @param tool - the tool to check
+ * @param config - the filter configuration
+ * @return the decision and the rule that produced it
+ */
+export function decideTool(
+    tool: FilterableTool,
+    config: ToolFilterConfig
+): ToolDecision {
+    const rules = config.rules ?? [];
+
+    const denyIndex = rules.findIndex(
+        (rule) => rule.effect === "deny" && matchesTool(tool, rule)
+    );
+    if (denyIndex !== -1) {
+        return {
+            name: tool.name,
+            allowed: false,
+            reason: describeRule(rules[denyIndex], denyIndex)
+        };
+    }
+
+    const allowedTools = config.allowedTools ?? [];
+    const allowRules = rules.filter((rule) => rule.effect === "allow");
+    if (
+        config.allowAllTools ||
+        (allowedTools.length === 0 && allowRules.length === 0)
+    ) {
+        return { name: tool.name, allowed: true, reason: "all tools allowed" };
+    }
+
+    const allowedEntry = allowedTools.find((glob) =>
+        matchesGlob(tool.name, glob)
+    );
+    if (allowedEntry !== undefined) {
+        return {
+            name: tool.name,
+            allowed: true,
+            reason: `allowedTools ${JSON.stringify(allowedEntry)}`
+        };
+    }
+
+    const allowIndex = rules.findIndex(
+        (rule) => rule.effect === "allow" && matchesTool(tool, rule)
+    );
+    if (allowIndex !== -1) {
+        return {
+            name: tool.name,
+            allowed: true,
+            reason: describeRule(rules[allowIndex], allowIndex)
+        };
+    }
+
+    return { name: tool.name, allowed: false, reason: "no allow rule matched" };
+}
+
+/**
+ * Apply the filter config to a list of tools.
+ * @param tools - the tools to filter
+ * @param config - the filter configuration
+ * @return the admitted tools and a decision for every tool
+ */
+export function filterTools<T extends FilterableTool>(
+    tools: T[],
+    config: ToolFilterConfig
+): { tools: T[]; decisions: ToolDecision[] } {
+    const decisions = tools.map((tool) => decideTool(tool, config));
+    return {
+        tools: tools.filter((_tool, index) => decisions[index].allowed),
+        decisions
+    };
+}
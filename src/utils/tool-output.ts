@@ -0,0 +1,137 @@
+import * as outputLimitsJson from "../output-limits.json";
+import { FilterableTool, matchesTool, ToolMatcher } from "./tool-filter";
+
+export type OutputOptions = {
+    // Dot paths to keep, e.g. `orders.id`; arrays are traversed
+    fields?: string[];
+    // Character budget of the rendered result
+    maxChars?: number;
+    // Render JSON without indentation
+    compact?: boolean;
+};
+
+type OutputRule = ToolMatcher & OutputOptions;
+
+const outputLimitsConfig = outputLimitsJson as {
+    defaults?: OutputOptions;
+    rules?: OutputRule[];
+};
+
+// Paging metadata survives any field projection
+const PAGING_KEYS = ["count", "offset", "limit", "pagination"];
+
+const TRUNCATION_HINT =
+    "narrow the response with output_fields, the fields query parameter or a smaller limit";
+
+// Output controls from output-limits.json for a tool, before call inputs
+export function getOutputDefaults(tool: FilterableTool): OutputOptions {
+    const { defaults = {}, rules = [] } = outputLimitsConfig;
+    const rule = rules.find((candidate) => matchesTool(tool, candidate));
+    if (!rule) {
+        return defaults;
+    }
+    const { name, tags, methods, ...options } = rule;
+    return { ...defaults, ...options };
+}
+
+function pickPaths(value: any, paths: string[][]): any {
+    if (Array.isArray(value)) {
+        return value.map((item) => pickPaths(item, paths));
+    }
+    if (!value || typeof value !== "object") {
+        return value;
+    }
+    // A path ending here keeps the whole subtree
+    if (paths.some((path) => path.length === 0)) {
+        return value;
+    }
+    const result: Record<string, any> = {};
+    Object.keys(value).forEach((key) => {
+        const nested = paths
+            .filter((path) => path[0] === key || path[0] === "*")
+            .map((path) => path.slice(1));
+        if (nested.length > 0) {
+            result[key] = pickPaths(value[key], nested);
+        }
+    });
+    return result;
+}
+
+/**
+ * Keep only the given fields of a tool result.
+ * @param value - the tool result
+ * @param fields - dot paths such as `orders.id` or `order.items.*.title`
+ * @return the projected result
+ */
+export function projectFields(value: unknown, fields: string[]): unknown {
+    const paths = [...fields, ...PAGING_KEYS].map((field) => field.split("."));
+    return pickPaths(value, paths);
+}
+
+function findListKey(value: unknown): string | undefined {
+    if (!value || typeof value !== "object" || Array.isArray(value)) {
+        return undefined;
+    }
+    return Object.keys(value).find((key) =>
+        Array.isArray((value as Record<string, unknown>)[key])
+    );
+}
+
+/**
+ * Render a tool result as text, applying the field projection, the JSON
+ * style and the character budget. List responses are cut by whole records so
+ * they stay valid JSON; anything else is cut at the budget.
+ * @param result - the tool result
+ * @param options - the output controls
+ * @return the rendered result
+ */
+export function formatToolOutput(
+    result: unknown,
+    options: OutputOptions
+): string {
+    const projected = options.fields?.length
+        ? projectFields(result, options.fields)
+        : result;
+    const stringify = (value: unknown): string =>
+        JSON.stringify(value, null, options.compact ? undefined : 2) ?? "";
+
+    const text = stringify(projected);
+    const maxChars = options.maxChars;
+    if (!maxChars || text.length <= maxChars) {
+        return text;
+    }
+
+    const listKey = findListKey(projected);
+    if (listKey) {
+        const list = projected as Record<string, any>;
+        const items: unknown[] = list[listKey];
+        const withItems = (kept: number): string =>
+            stringify({
+                ...list,
+                [listKey]: items.slice(0, kept),
+                truncated: {
+                    kept,
+                    omitted: items.length - kept,
+                    hint: TRUNCATION_HINT
+                }
+            });
+        // Find the most records that fit the budget
+        let low = 0;
+        let high = items.length - 1;
+        while (low < high) {
+            const middle = Math.ceil((low + high) / 2);
+            if (withItems(middle).length <= maxChars) {
+                low = middle;
+            } else {
+                high = middle - 1;
+            }
+        }
+        if (low > 0) {
+            return withItems(low);
+        }
+    }
+
+    return `${text.slice(0, maxChars)}\n…[truncated ${
+        text.length - maxChars
+    } of ${text.length} characters; ${TRUNCATION_HINT}]`;
+}
@@ -0,0 +1,105 @@
+import { createHash } from "node:crypto";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import {
+    buildProfiles,
+    DEFAULT_PROFILE,
+    findCredentialProfile,
+    selectProfile,
+    ToolProfilesConfig
+} from "./tool-profiles";
+
+const CATALOG_KEY = "pk_catalog";
+
+function getIdentity(type: string, secret: string): string {
+    const hash = createHash("sha256").update(secret).digest("hex");
+    return `${type}:${hash.slice(0, 12)}`;
+}
+
+const config: ToolProfilesConfig = {
+    allowedTools: ["AdminGetProducts"],
+    profiles: {
+        catalog: {
+            allowedTools: ["AdminGetProduct*"],
+            credentials: [getIdentity("publishable-key", CATALOG_KEY)]
+        },
+        orders: { allowedTools: ["AdminGetOrders"] }
+    }
+};
+
+describe("selectProfile", () => {
+    it("uses the path profile before the profile header", () => {
+        expect(
+            selectProfile(config, { "x-mcp-profile": "catalog" }, "orders")
+        ).toBe("orders");
+        expect(selectProfile(config, { "x-mcp-profile": "catalog" })).toBe(
+            "catalog"
+        );
+        expect(selectProfile(config, {})).toBe(DEFAULT_PROFILE);
+    });
+
+    it("binds callers to the profile listing their key identity", () => {
+        const headers = { "x-medusa-publishable-key": CATALOG_KEY };
+
+        expect(findCredentialProfile(config, headers)).toBe("catalog");
+        expect(selectProfile(config, headers)).toBe("catalog");
+        expect(selectProfile(config, headers, "catalog")).toBe("catalog");
+    });
+
+    it("refuses a different path or header profile for bound credentials", () => {
+        const headers = { "x-medusa-publishable-key": CATALOG_KEY };
+
+        expect(() => selectProfile(config, headers, "orders")).toThrow(
+            'These credentials are bound to the "catalog" profile and cannot use "orders"'
+        );
+        expect(() =>
+            selectProfile(config, { ...headers, "x-mcp-profile": "default" })
+        ).toThrow(/bound to the "catalog" profile/);
+    });
+
+    it("does not bind tokens or unlisted keys", () => {
+        expect(
+            findCredentialProfile(config, {
+                "x-medusa-customer-token": CATALOG_KEY,
+                "x-medusa-publishable-key": "pk_other"
+            })
+        ).toBeUndefined();
+    });
+});
+
+describe("buildProfiles", () => {
+    beforeEach(() => {
+        vi.spyOn(console, "error").mockImplementation(() => undefined);
+    });
+
+    afterEach(() => {
+        vi.restoreAllMocks();
+    });
+
+    it("filters the tools once per profile", () => {
+        const tools = [
+            { name: "AdminGetProducts" },
+            { name: "AdminGetProductsId" },
+            { name: "AdminGetOrders" }
+        ];
+        const profiles = buildProfiles(tools, config);
+
+        expect(profiles.get(DEFAULT_PROFILE)?.map((tool) => tool.name)).toEqual(
+            ["AdminGetProducts"]
+        );
+        expect(profiles.get("catalog")?.map((tool) => tool.name)).toEqual([
+            "AdminGetProducts",
+            "AdminGetProductsId"
+        ]);
+        expect(profiles.get("orders")?.map((tool) => tool.name)).toEqual([
+            "AdminGetOrders"
+        ]);
+    });
+
+    it("refuses raw keys listed as profile credentials", () => {
+        expect(() =>
+            buildProfiles([], {
+                profiles: { catalog: { credentials: [CATALOG_KEY] } }
+            })
+        ).toThrow(/not a key identity/);
+    });
+});
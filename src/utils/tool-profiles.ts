@@ -0,0 +1,118 @@
+import { IsomorphicHeaders } from "@modelcontextprotocol/sdk/types.js";
+import { describeCaller, getCallerCredentials } from "./caller-credentials";
+import { ToolError } from "./error";
+import { filterTools, FilterableTool, ToolFilterConfig } from "./tool-filter";
+
+// Header an MCP client can send to pick a profile
+export const PROFILE_HEADER = "x-mcp-profile";
+// The top-level filter config, used when a client picks no profile
+export const DEFAULT_PROFILE = "default";
+
+// Only keys can bind a profile: tokens expire and change on every login
+const CREDENTIAL_IDENTITY_PATTERN =
+    /^(admin-api-key|publishable-key):[0-9a-f]{12}$/;
+
+export type ToolProfile = ToolFilterConfig & {
+    // Identities of the Medusa keys that select this profile, as produced by
+    // `describeCaller`, e.g. `publishable-key:1a2b3c4d5e6f`
+    credentials?: string[];
+};
+
+export type ToolProfilesConfig = ToolFilterConfig & {
+    profiles?: Record<string, ToolProfile>;
+};
+
+/**
+ * Filter the tools once per profile, logging which rule admitted or
+ * rejected every tool.
+ * @param tools - all generated tools
+ * @param config - the filter config with its named profiles
+ * @return the admitted tools keyed by profile name
+ */
+export function buildProfiles<T extends FilterableTool>(
+    tools: T[],
+    config: ToolProfilesConfig
+): Map<string, T[]> {
+    const { profiles = {}, ...defaultConfig } = config;
+    const configs: [string, ToolFilterConfig][] = [
+        [DEFAULT_PROFILE, defaultConfig],
+        ...Object.entries(profiles)
+    ];
+
+    // Raw keys in the config would never match and would leak into the build
+    Object.entries(profiles).forEach(([profile, profileConfig]) => {
+        profileConfig.credentials?.forEach((credential) => {
+            if (!CREDENTIAL_IDENTITY_PATTERN.test(credential)) {
+                throw new Error(
+                    `Profile "${profile}" lists a credential that is not a key identity such as "publishable-key:<first 12 hex digits of its sha256>"`
+                );
+            }
+        });
+    });
+
+    const result = new Map<string, T[]>();
+    configs.forEach(([profile, profileConfig]) => {
+        const { tools: allowed, decisions } = filterTools(tools, profileConfig);
+        decisions.forEach((decision) => {
+            console.error(
+                `[${profile}] ${decision.allowed ? "+" : "-"} ${
+                    decision.name
+                } (${decision.reason})`
+            );
+        });
+        console.error(
+            `[${profile}] Tool filtering: ${allowed.length}/${tools.length} tools allowed`
+        );
+        result.set(profile, allowed);
+    });
+    return result;
+}
+
+// The profile whose `credentials` list the identity of one of the caller's
+// keys
+export function findCredentialProfile(
+    config: ToolProfilesConfig,
+    headers: IsomorphicHeaders
+): string | undefined {
+    const identities = describeCaller(getCallerCredentials(headers)).filter(
+        (identity) => CREDENTIAL_IDENTITY_PATTERN.test(identity)
+    );
+    const match = Object.entries(config.profiles ?? {}).find(([, profile]) =>
+        profile.credentials?.some((credential) =>
+            identities.includes(credential)
+        )
+    );
+    return match?.[0];
+}
+
+/**
+ * Pick the profile for a connection. A profile listing the identity of one
+ * of the caller's keys is binding: asking for another one by path segment or header
+ * is refused. Otherwise the path segment wins, then the profile header.
+ * @param config - the filter config with its named profiles
+ * @param headers - the HTTP headers of the request
+ * @param pathProfile - the profile named in the URL, e.g. `/mcp/catalog`
+ * @return the profile name
+ */
+export function selectProfile(
+    config: ToolProfilesConfig,
+    headers: IsomorphicHeaders,
+    pathProfile?: string
+): string {
+    const header = headers[PROFILE_HEADER];
+    const requested =
+        pathProfile || (Array.isArray(header) ? header[0] : header);
+
+    const credentialProfile = findCredentialProfile(config, headers);
+    if (credentialProfile) {
+        if (requested && requested !== credentialProfile) {
+            throw new ToolError(
+                `These credentials are bound to the "${credentialProfile}" profile and cannot use "${requested}"`,
+                "not_allowed",
+                { status: 403 }
+            );
+        }
+        return credentialProfile;
+    }
+    return requested || DEFAULT_PROFILE;
+}
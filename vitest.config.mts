@@ -0,0 +1,14 @@
+import { createRequire } from "node:module";
+import { defineConfig } from "vitest/config";
+
+const require = createRequire(import.meta.url);
+
+export default defineConfig({
+    resolve: {
+        alias: {
+            // The SDK's ESM build uses directory imports that Node cannot
+            // load, so tests use its CommonJS build like the server does
+            "@medusajs/js-sdk": require.resolve("@medusajs/js-sdk")
+        }
+    }
+});